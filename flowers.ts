@@ -9,16 +9,6 @@
  */
 namespace constant {
     export namespace flower {
-        export namespace numberOf {
-            export namespace leaf {
-                export const min = 1
-                export const max = 4
-            }
-            export namespace stamen {
-                export const min = 25
-                export const max = 30
-            }
-        }
         export namespace positionInterval {
             export const min = 0
             export const max = 150
@@ -32,6 +22,22 @@ namespace constant {
             [[-180, 30], [-290, 30], [-180, -70], [-290, -70]], // horse
             [[400, 30], [-300, -270], [-300, -10000], [400, -10000]] // background
         ]
+        /**
+         * Steepest slope of the land a flower can stand on, in radians
+         */
+        export const maxSlope = Math.PI / 6
+        /**
+         * Random positions tried for a new flower before the garden is considered full
+         */
+        export const maxPlacementAttempts = 500
+        /**
+         * Farthest distance along x and z from its mother an offspring is planted at, see control.pollinate()
+         */
+        export const offspringDistance = 40
+        /**
+         * Chance of each gene of an offspring to mutate, see genetics.mutate()
+         */
+        export const mutationRate = 0.05
     }
 }
 
@@ -46,6 +52,139 @@ namespace dom {
     export function canvas(): HTMLElement {
         return <HTMLElement>document.getElementById('canvas-frame')
     }
+
+    /**
+     * Get loading overlay div
+     * @returns overlay, or null if the page has none
+     */
+    export function loadingOverlay(): HTMLElement | null {
+        return document.getElementById('loading-overlay')
+    }
+
+    /**
+     * Let the browser download a file
+     * @param {Blob} blob - content of the file
+     * @param {string} filename - name of the file
+     * @impure
+     */
+    export function download(blob: Blob, filename: string): void {
+        const url: string = URL.createObjectURL(blob)
+        const anchor: HTMLAnchorElement = document.createElement('a')
+        anchor.href = url
+        anchor.download = filename
+        document.body.appendChild(anchor)
+        anchor.click()
+        document.body.removeChild(anchor)
+        URL.revokeObjectURL(url)
+    }
+
+    /**
+     * Let the browser download files one after another, as browsers block many downloads started at once
+     * @param {{blob: Blob, filename: string}[]} files - content and name of each file
+     * @param {number} interval - milliseconds to wait between two downloads
+     * @returns {Promise<void>} resolved once every download has started
+     * @impure
+     */
+    export async function downloadAll(files: {blob: Blob, filename: string}[], interval = 300): Promise<void> {
+        for (let index = 0; index < files.length; index++) {
+            if (index > 0) await new Promise<void>(resolve => window.setTimeout(resolve, interval))
+            download(files[index].blob, files[index].filename)
+        }
+    }
+
+    /**
+     * Recorder of the frames of a canvas as a video
+     */
+    export interface CanvasRecorder {
+        /**
+         * Add what the canvas shows now as a frame
+         */
+        requestFrame(): void
+        /**
+         * Stop recording
+         * @returns {Promise<Blob>} the video in Promise
+         */
+        stop(): Promise<Blob>
+    }
+
+    /**
+     * Track of the frames of a canvas, see HTMLCanvasElement.captureStream()
+     */
+    interface CanvasTrack {
+        requestFrame(): void
+    }
+
+    interface CanvasStream {
+        getVideoTracks(): CanvasTrack[]
+    }
+
+    /**
+     * The part of MediaRecorder used here
+     */
+    interface VideoRecorder {
+        ondataavailable: (event: {data: Blob}) => void
+        onstop: () => void
+        start(): void
+        stop(): void
+    }
+
+    /**
+     * Canvas and window as seen by recordCanvas(), MediaRecorder and HTMLCanvasElement.captureStream() having
+     * no typings yet, both absent in some browsers
+     */
+    interface RecordingCanvas {
+        captureStream?: (frameRate: number) => CanvasStream
+    }
+
+    interface RecordingWindow {
+        MediaRecorder?: new (stream: CanvasStream, options: {mimeType: string}) => VideoRecorder
+    }
+
+    /**
+     * Start recording the frames of a canvas as a WebM video
+     * @param {HTMLCanvasElement} canvas - the canvas
+     * @returns {CanvasRecorder | null} the recorder, or null if the browser can't record videos
+     * @impure
+     */
+    export function recordCanvas(canvas: HTMLCanvasElement): CanvasRecorder | null {
+        const MediaRecorder = (<RecordingWindow>window).MediaRecorder
+        const recordingCanvas = <RecordingCanvas>canvas
+        if (MediaRecorder === undefined || recordingCanvas.captureStream === undefined) return null
+        // frames are only added when requested
+        const stream: CanvasStream = recordingCanvas.captureStream(0)
+        const track: CanvasTrack = stream.getVideoTracks()[0]
+        const recorder: VideoRecorder = new MediaRecorder(stream, {mimeType: 'video/webm'})
+        const chunks: Blob[] = []
+        recorder.ondataavailable = (event: {data: Blob}) => {
+            if (event.data.size > 0) chunks.push(event.data)
+        }
+        recorder.start()
+        return {
+            requestFrame: () => track.requestFrame(),
+            stop: () => new Promise<Blob>(resolve => {
+                recorder.onstop = () => resolve(new Blob(chunks, {type: 'video/webm'}))
+                recorder.stop()
+            })
+        }
+    }
+
+    /**
+     * Get a query parameter of the current page url
+     * @param {string} name - name of the parameter
+     * @returns {string | null} value of the parameter, or null if it is absent
+     */
+    export function queryParameter(name: string): string | null {
+        const query: string = window.location.search.replace(/^\?/, '')
+        if (query.length === 0) return null
+        for (const pair of query.split('&')) {
+            const separatorIndex: number = pair.indexOf('=')
+            const key: string = separatorIndex === -1 ? pair : pair.substring(0, separatorIndex)
+            if (decodeURIComponent(key) === name) {
+                return separatorIndex === -1 ? '' : decodeURIComponent(pair.substring(separatorIndex + 1).replace(/\+/g, ' '))
+            }
+        }
+        return null
+    }
 }
 
 /**
@@ -63,6 +202,134 @@ namespace error {
     export class IllegalStateError extends Error {}
 }
 
+/**
+ * Seedable pseudo random number generation
+ */
+namespace prng {
+    /**
+     * Deterministic pseudo random number generator (mulberry32)
+     */
+    export class RandomGenerator {
+        private state: number
+        private constructor(readonly seed: number) {
+            this.state = seed
+        }
+        static of(seed: number): RandomGenerator {
+            return new RandomGenerator(seed >>> 0)
+        }
+
+        /**
+         * Recreate a generator from a previously captured state
+         * @param {number} seed - the seed the generator was created with
+         * @param {number} state - the captured state
+         * @returns {RandomGenerator} the generator, continuing the sequence from the captured state
+         */
+        static restore(seed: number, state: number): RandomGenerator {
+            const generator: RandomGenerator = RandomGenerator.of(seed)
+            generator.state = state >>> 0
+            return generator
+        }
+
+        /**
+         * Capture the current state, see restore()
+         * @returns {number} the state
+         */
+        getState(): number {
+            return this.state
+        }
+
+        /**
+         * Get next random double value in [0, 1)
+         * @returns {number} random value
+         * @impure
+         */
+        next(): number {
+            let t: number = this.state = (this.state + 0x6D2B79F5) >>> 0
+            t = Math.imul(t ^ (t >>> 15), t | 1)
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+        }
+
+        /**
+         * Derive an independent generator, whose sequence only depends on the state of this one
+         * @returns {RandomGenerator} the derived generator
+         * @impure
+         */
+        fork(): RandomGenerator {
+            return RandomGenerator.of(Math.floor(this.next() * 4294967296))
+        }
+    }
+
+    /**
+     * The generator every garden level random choice is drawn from
+     */
+    let garden: RandomGenerator = RandomGenerator.of(Math.floor(Math.random() * 4294967296))
+
+    /**
+     * Convert a seed to an unsigned 32-bit integer
+     * Integers are used as is, other values are hashed (FNV-1a) from their string form
+     * @param {number | string} seed - the seed
+     * @returns {number} the normalized seed
+     */
+    export function normalizeSeed(seed: number | string): number {
+        const text: string = String(seed).trim()
+        if (/^\d+$/.test(text) && Number(text) <= 4294967295) return Number(text)
+        let hash = 0x811C9DC5
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i)
+            hash = Math.imul(hash, 0x01000193)
+        }
+        return hash >>> 0
+    }
+
+    /**
+     * Reset the garden generator, so that the flowers generated afterwards can be reproduced
+     * @param {number | string} seed - the seed, or a random one if not given
+     * @returns {number} the normalized seed in use
+     * @impure
+     */
+    export function seed(seed?: number | string): number {
+        garden = RandomGenerator.of(seed === undefined
+            ? Math.floor(Math.random() * 4294967296)
+            : normalizeSeed(seed))
+        return garden.seed
+    }
+
+    /**
+     * Get the seed of the garden generator
+     * @returns {number} the seed
+     */
+    export function currentSeed(): number {
+        return garden.seed
+    }
+
+    /**
+     * Get the garden generator
+     * @returns {RandomGenerator} the garden generator
+     */
+    export function global(): RandomGenerator {
+        return garden
+    }
+
+    /**
+     * Replace the garden generator, e.g. with a restored one
+     * @param {RandomGenerator} generator - the new garden generator
+     * @impure
+     */
+    export function use(generator: RandomGenerator): void {
+        garden = generator
+    }
+
+    /**
+     * Derive an independent generator from the garden generator, e.g. one for each flower
+     * @returns {RandomGenerator} the derived generator
+     * @impure
+     */
+    export function fork(): RandomGenerator {
+        return garden.fork()
+    }
+}
+
 /**
  * General utils
  */
@@ -81,32 +348,35 @@ namespace util {
      * Get random double value in [a, b), or [0, a) if b is not given
      * @param {number} a - low bound
      * @param {number} b - high bound
+     * @param {RandomGenerator} generator - source of randomness, the garden generator by default
      * @returns {number} random value
      */
-    export function random(a: number, b?: number): number {
-        if (b === undefined) return Math.random() * a
-        else return Math.random() * Math.abs(b - a) + Math.min(a, b)
+    export function random(a: number, b?: number, generator: prng.RandomGenerator = prng.global()): number {
+        if (b === undefined) return generator.next() * a
+        else return generator.next() * Math.abs(b - a) + Math.min(a, b)
     }
 
     /**
      * Get random item from an array
      * @param items - items array
+     * @param {RandomGenerator} generator - source of randomness, the garden generator by default
      * @returns a random item
      */
-    export function randomlyPick(items: any[]): any {
-        return items[Math.floor(random(items.length))]
+    export function randomlyPick(items: any[], generator: prng.RandomGenerator = prng.global()): any {
+        return items[Math.floor(random(items.length, undefined, generator))]
     }
 
     /**
      * Generate random boolean array
      * @param {number} length - the length of the array
+     * @param {RandomGenerator} generator - source of randomness, the garden generator by default
      * @returns {boolean[]} result, for example [true, true, false]
      */
-    export function randomBooleanArray(length: number): boolean[] {
+    export function randomBooleanArray(length: number, generator: prng.RandomGenerator = prng.global()): boolean[] {
         if (length < 0) throw new error.IllegalArgumentError('Invalid array length')
         const array = []
         for (const _ of range(length)) {
-            array.push(Math.round(Math.random()) === 1)
+            array.push(Math.round(generator.next()) === 1)
         }
         return array
     }
@@ -116,9 +386,11 @@ namespace util {
      * @param {number} length - the length of the array
      * @param {number} lowerBound - the lower bound of the number of trues in array
      * @param {number} upperBound - the upper bound of the number of trues in array
+     * @param {RandomGenerator} generator - source of randomness, the garden generator by default
      * @returns {boolean[]} result, for example [true, true, false]
      */
-    export function boundedRandomBooleanArray(length: number, lowerBound: number, upperBound: number): boolean[] {
+    export function boundedRandomBooleanArray(length: number, lowerBound: number, upperBound: number,
+                                              generator: prng.RandomGenerator = prng.global()): boolean[] {
         // ensure bounds validity
         if (lowerBound > upperBound) {
             const tmp = lowerBound
@@ -128,7 +400,7 @@ namespace util {
         if (length < 0) throw new error.IllegalArgumentError('Invalid array length')
         if (lowerBound > length || upperBound < 0) throw new error.IllegalArgumentError('Invalid bounds')
         // generate random array
-        const array: boolean[] = randomBooleanArray(length)
+        const array: boolean[] = randomBooleanArray(length, generator)
         // limit number of trues
         let trues: number
         while (
@@ -139,7 +411,7 @@ namespace util {
                     .map((item, index) => item !== toBe ? index : -1)
                     .filter(x => x !== -1)
 
-            array[indexes[Math.floor(random(0, indexes.length))]] = toBe
+            array[indexes[Math.floor(random(0, indexes.length, generator))]] = toBe
         }
         return array
     }
@@ -252,6 +524,142 @@ namespace util {
     }
 }
 
+/**
+ * Spatial indexing on the xz plane
+ */
+namespace spatial {
+    /**
+     * Axis-aligned rectangle on the xz plane
+     */
+    export interface Bounds {
+        xMin: number
+        xMax: number
+        zMin: number
+        zMax: number
+    }
+
+    /**
+     * Get the square centered at a position
+     * @param {number} x - x of the center
+     * @param {number} z - z of the center
+     * @param {number} halfSide - half of the side of the square
+     * @returns {Bounds} the square
+     */
+    export function square(x: number, z: number, halfSide: number): Bounds {
+        return {xMin: x - halfSide, xMax: x + halfSide, zMin: z - halfSide, zMax: z + halfSide}
+    }
+
+    /**
+     * Get the bounding rectangle of a polygon
+     * @param {number[][]} polygon - [x, z] vertices of the polygon
+     * @returns {Bounds} the rectangle
+     */
+    export function boundsOf(polygon: number[][]): Bounds {
+        const xs: number[] = polygon.map(vertex => vertex[0])
+        const zs: number[] = polygon.map(vertex => vertex[1])
+        return {
+            xMin: Math.min.apply(Math, xs),
+            xMax: Math.max.apply(Math, xs),
+            zMin: Math.min.apply(Math, zs),
+            zMax: Math.max.apply(Math, zs)
+        }
+    }
+
+    /**
+     * Uniform grid of square cells, each one holding the items whose bounds cover it
+     * Cells are limited to a square extent around the origin, items reaching beyond it are kept in the border cells
+     */
+    export class GridIndex<T> {
+        private cells: {[key: string]: T[]} = {}
+        private items: T[] = []
+        private itemBounds: Bounds[] = []
+
+        private constructor(private cellSize: number, private extent: number) {}
+        static of<T>(cellSize = 20, extent = 1000): GridIndex<T> {
+            if (cellSize <= 0 || extent < cellSize) throw new error.IllegalArgumentError('Invalid grid')
+            return new GridIndex<T>(cellSize, extent)
+        }
+
+        /**
+         * Add an item
+         * @param {T} item - the item
+         * @param {Bounds} bounds - the rectangle the item covers
+         * @returns {GridIndex<T>} this
+         * @impure
+         */
+        insert(item: T, bounds: Bounds): this {
+            this.items.push(item)
+            this.itemBounds.push(bounds)
+            this.forEachCell(bounds, key => {
+                if (this.cells[key] === undefined) this.cells[key] = []
+                this.cells[key].push(item)
+            })
+            return this
+        }
+
+        /**
+         * Remove an item
+         * @param {T} item - the item
+         * @returns {boolean} false if the item is not in the grid
+         * @impure
+         */
+        remove(item: T): boolean {
+            const index: number = this.items.indexOf(item)
+            if (index === -1) return false
+            this.forEachCell(this.itemBounds[index], key => {
+                const cell: T[] = this.cells[key]
+                cell.splice(cell.indexOf(item), 1)
+                if (cell.length === 0) delete this.cells[key]
+            })
+            this.items.splice(index, 1)
+            this.itemBounds.splice(index, 1)
+            return true
+        }
+
+        /**
+         * Remove every item
+         * @returns {GridIndex<T>} this
+         * @impure
+         */
+        clear(): this {
+            this.cells = {}
+            this.items = []
+            this.itemBounds = []
+            return this
+        }
+
+        /**
+         * Get the items which may intersect a rectangle, i.e. the ones sharing a cell with it
+         * @param {Bounds} bounds - the rectangle
+         * @returns {T[]} the items, each one once
+         */
+        query(bounds: Bounds): T[] {
+            const result: T[] = []
+            this.forEachCell(bounds, key => {
+                const cell: T[] | undefined = this.cells[key]
+                if (cell === undefined) return
+                for (const item of cell) {
+                    if (result.indexOf(item) === -1) result.push(item)
+                }
+            })
+            return result
+        }
+
+        private cellOf(coordinate: number): number {
+            const limit: number = Math.floor(this.extent / this.cellSize)
+            return Math.max(-limit, Math.min(limit, Math.floor(coordinate / this.cellSize)))
+        }
+
+        private forEachCell(bounds: Bounds, callback: (key: string) => void): void {
+            for (let column = this.cellOf(bounds.xMin); column <= this.cellOf(bounds.xMax); column++) {
+                for (let row = this.cellOf(bounds.zMin); row <= this.cellOf(bounds.zMax); row++) {
+                    callback(column + ':' + row)
+                }
+            }
+        }
+    }
+}
+
 /**
  * Functional Extensions for THREE.js
  */
@@ -374,828 +782,5573 @@ namespace threeEx {
         collect(): THREE.Object3D[] {
             return this.objects
         }
-    }
-}
-
-namespace model {
-    export interface Iterator<T> {
-        hasNext(): boolean
-        next(): T
-    }
-
-    export interface Enumerable<T> {
-        iterator(): Iterator<T>
-        all(): T[]
-    }
-
-    export interface Objects {
 
+        /**
+         * Collect the meshes in the objects and their descendants
+         * @returns {Mesh[]} the meshes
+         */
+        meshes(): THREE.Mesh[] {
+            const meshes: THREE.Mesh[] = []
+            for (const object of this.objects) {
+                object.traverse(child => {
+                    if (child instanceof THREE.Mesh) meshes.push(child)
+                })
+            }
+            return meshes
+        }
     }
 
-    export class Flower implements Objects, Enumerable<THREE.Object3D> {
-        private constructor(public stem: THREE.Group,
-                            public torus: THREE.Group,
-                            public stamens: THREE.Group[],
-                            public petals: THREE.Group[],
-                            public leaves: THREE.Group[]) {}
-        static of(stem: THREE.Group, torus: THREE.Group,
-                  stamens: THREE.Group[], petals: THREE.Group[], leaves: THREE.Group[]): Flower {
-            return new Flower(stem, torus, stamens, petals, leaves)
+    /**
+     * Scripts of THREE.js examples which have no typings, see flowers.html for the ones loaded
+     */
+    export namespace examples {
+        export interface GLTF {
+            scene: THREE.Scene
         }
 
-        iterator(): Iterator<THREE.Object3D> {
-            class ObjectIterator implements Iterator<THREE.Object3D> {
-                constructor(objects: (THREE.Object3D | THREE.Object3D[])[]) {
-                    for (const object of objects) {
-                        if (object instanceof THREE.Object3D) {
-                            this.objects.push(object)
-                        } else {
-                            for (const singleObject of object) {
-                                this.objects.push(singleObject)
-                            }
-                        }
-                    }
-                }
-                private objects: THREE.Object3D[] = []
-                private index = 0
-
-                hasNext(): boolean {
-                    return this.index < this.objects.length
-                }
-
-                next(): THREE.Object3D {
-                    if (!this.hasNext()) throw new error.IllegalStateError('Iterator doesn\'t have next item')
-                    return this.objects[this.index++]
-                }
-
-            }
+        export interface GLTFLoader {
+            load(url: string, onLoad: (gltf: GLTF) => void, onProgress?: (event: ProgressEvent) => void,
+                 onError?: (event: ErrorEvent) => void): void
+        }
 
-            return new ObjectIterator([this.stem, this.torus, this.stamens, this.petals, this.leaves])
+        export interface GLTFExporterOptions {
+            /**
+             * Whether to write a .glb file instead of a .gltf one
+             */
+            binary?: boolean
+            /**
+             * Whether to leave out the invisible objects
+             */
+            onlyVisible?: boolean
         }
 
-        all(): THREE.Object3D[] {
-            const iterator: Iterator<THREE.Object3D> = this.iterator()
-            const result: THREE.Object3D[] = []
-            while (iterator.hasNext()) {
-                result.push(iterator.next())
-            }
-            return result
+        export interface GLTFExporter {
+            parse(input: THREE.Scene, onDone: (result: ArrayBuffer | object) => void, options?: GLTFExporterOptions): void
         }
 
-        clone(): Flower {
-            return Flower.of(
-                this.stem.clone(),
-                this.torus.clone(),
-                threeEx.ObjectsHelper.of(this.stamens).clone().collect(),
-                threeEx.ObjectsHelper.of(this.petals).clone().collect(),
-                threeEx.ObjectsHelper.of(this.leaves).clone().collect(),
-            )
+        /**
+         * Get a constructor of the THREE namespace
+         * @param {string} name - name of the constructor
+         * @returns {new () => T} the constructor
+         */
+        function constructorOf<T>(name: string): new () => T {
+            const constructors = <{[name: string]: (new () => T) | undefined}><{}>THREE
+            const constructor: (new () => T) | undefined = constructors[name]
+            if (constructor === undefined) throw new error.IllegalStateError('THREE.' + name + ' is not loaded')
+            return constructor
         }
 
-        getCentralPosition(): THREE.Vector3 {
-            const vectors: THREE.Vector3[] = this.all().map(object => object.position)
-            return util.math.meanVector(vectors)
+        export function GLTFLoader(): GLTFLoader {
+            return new (constructorOf<GLTFLoader>('GLTFLoader'))()
         }
 
-        getProjectionArea(): number[][] {
-            const reference: THREE.Vector3 = this.stem.position
-            return [
-                [reference.x - 10, reference.z - 10],
-                [reference.x + 10, reference.z - 10],
-                [reference.x + 10, reference.z + 10],
-                [reference.x - 10, reference.z + 10],
-            ]
+        export function GLTFExporter(): GLTFExporter {
+            return new (constructorOf<GLTFExporter>('GLTFExporter'))()
         }
+    }
+}
 
-        moveHorizontallyTo(destination: THREE.Vector3): this {
-            this.all().map(object => object.position.setX(destination.x).setZ(destination.z))
-            return this
-        }
+/**
+ * Flower species definitions
+ */
+namespace species {
+    export interface Range {
+        min: number
+        max: number
+    }
 
-        moveRandomly(restrictedAreas: number[][][], bounds?: {xMin?: number, xMax?: number, zMin?: number, zMax?: number}): this {
-            // set defaults
-            if (bounds === undefined) bounds = {}
-            if (bounds.xMin === undefined) bounds.xMin = constant.flower.positionInterval.min
-            if (bounds.zMin === undefined) bounds.zMin = constant.flower.positionInterval.min
-            if (bounds.xMax === undefined) bounds.xMax = constant.flower.positionInterval.max
-            if (bounds.zMax === undefined) bounds.zMax = constant.flower.positionInterval.max
-            // check validity
-            if (bounds.xMin < 0 || bounds.zMin < 0 || bounds.xMax < bounds.xMin || bounds.zMax < bounds.zMin)
-                throw new error.IllegalArgumentError('Invalid bounds')
+    /**
+     * Stems are tubes along splines, generated for each flower, see model.StemShape
+     */
+    export interface StemDefinition {
+        textureUrl: string
+        length: Range
+        radius: number
+        lean: Range
+        curvature: Range
+        /**
+         * Part of its length the stem has when it comes out of the ground
+         */
+        initialGrowth: number
+    }
 
-            // prevent restricted areas
-            const reference: THREE.Vector3 = this.stem.position
-            let xDelta: number
-            let zDelta: number
-            do {
-                xDelta = util.randomlyPick([util.random(-bounds.xMax, -bounds.xMin), util.random(bounds.xMin, bounds.xMax)])
-                zDelta = util.randomlyPick([util.random(-bounds.zMax, -bounds.zMin), util.random(bounds.zMin, bounds.zMax)])
-            } while ((util.math.pointInPolygons([reference.x + xDelta, reference.z + zDelta], restrictedAreas)))
-
-            // move
-            this.all().map(object => {
-                object.position.x += xDelta
-                object.position.z += zDelta
-            })
-            return this
-        }
+    export interface TorusDefinition {
+        modelUrl: string
+        /**
+         * One of them is picked for each flower
+         */
+        textureUrls: string[]
+        scale: number[]
+        /**
+         * [x, y, z] position from the top of the stem, upright
+         */
+        position: number[]
+        rotationX: number
+    }
+
+    export interface StamenDefinition {
+        /**
+         * One of them is picked for each flower
+         */
+        modelUrls: string[]
+        textureUrl: string
+        scale: number[]
+        rotationX: number
+        /**
+         * [x, y, z] center of the disc the stamens stand on, from the top of the stem, upright,
+         * the stamens being spread along a spiral from the center outwards
+         */
+        center: number[]
+        radius: number
+        /**
+         * Angle in radians the disc tilts by, around x
+         */
+        tilt: number
+        /**
+         * How many stamens a flower has
+         */
+        count: Range
     }
-}
 
-namespace polyfills {
     /**
-     * Polyfill for Date.now
-     * @impure
+     * Ranges of the petal shapes generated in place of petal models, see model.PetalShape
      */
-    function dateNow() {
-        if (!Date.now)
-            Date.now = function() { return new Date().getTime() }
+    export interface PetalShapeDefinition {
+        length: Range
+        width: Range
+        widest: Range
+        curl: Range
+        cupping: Range
+        ruffle: Range
+        ruffleWaves: Range
+        /**
+         * [base, tip] colors of the gradients, one of them is picked for each flower
+         */
+        palettes: number[][]
+        subdivision: number
+    }
+
+    export interface PetalDefinition {
+        /**
+         * One of them is picked for each flower, unless petals are generated
+         */
+        modelUrls: string[]
+        /**
+         * One of them is picked for each flower, unless petals are generated
+         */
+        textureUrls: string[]
+        /**
+         * If given, every flower gets petals of a shape of its own, generated instead of loaded
+         */
+        shape?: PetalShapeDefinition
+        scale: number[]
+        /**
+         * [x, y, z] position from the top of the stem, upright
+         */
+        position: number[]
+        /**
+         * How many petals a flower has
+         */
+        count: Range
+        /**
+         * How many whorls the petals of a flower are arranged in, each turned by the golden angle from the one around it
+         */
+        whorls: Range
+        /**
+         * Angle in radians the flower head tilts by, around x
+         */
+        tilt: number
+        /**
+         * Angle in radians the petals rise by from the flower head while closed
+         */
+        closedAngle: number
+        /**
+         * Angle in radians the petals of the outer whorl rise by once open, inner whorls staying more upright
+         */
+        openAngle: number
     }
 
     /**
-     * Polyfill for window.requestAnimationFrame
-     * @requires dateNow()
-     * @impure
+     * How the leaves are arranged along the stem
+     * - alternate: one leaf at each node, turned by the golden angle from the one below
+     * - opposite: two leaves facing each other at each node, turned by a right angle from the ones below
+     * - whorled: some leaves spread evenly around each node, turned by half of their spacing from the ones below
      */
-    function requestAnimationFrame() {
-        const vendors = ['webkit', 'moz']
-        for (let i = 0; i < vendors.length && !window.requestAnimationFrame; ++i) {
-            const vp = vendors[i]
-            window.requestAnimationFrame = (window as any)[vp+'RequestAnimationFrame']
-            window.cancelAnimationFrame = ((window as any)[vp+'CancelAnimationFrame']
-                || (window as any)[vp+'CancelRequestAnimationFrame'])
-        }
-        if (/iP(ad|hone|od).*OS 6/.test(window.navigator.userAgent) // iOS6 is buggy
-            || !window.requestAnimationFrame || !window.cancelAnimationFrame) {
-            let lastTime = 0
-            window.requestAnimationFrame = function(callback) {
-                const now = Date.now()
-                const nextTime = Math.max(lastTime + 16, now)
-                return setTimeout(function() { callback(lastTime = nextTime) },
-                    nextTime - now)
-            }
-            window.cancelAnimationFrame = clearTimeout
-        }
+    export type Phyllotaxis = 'alternate' | 'opposite' | 'whorled'
+
+    export interface LeafDefinition {
+        modelUrl: string
+        textureUrl: string
+        scale: number[]
+        /**
+         * Heights of the lowest and the highest nodes the leaves grow at, in [0, 1] from the root to the top of the stem
+         */
+        span: Range
+        /**
+         * Height between successive nodes, in the same unit as the span
+         */
+        spacing: number
+        phyllotaxis: Phyllotaxis
+        /**
+         * Number of leaves at each node if they are whorled
+         */
+        whorlSize: number
+        /**
+         * How many of the leaves are shown
+         */
+        count: Range
+    }
+
+    export interface GrowthDefinition {
+        /**
+         * Seconds it takes to grow fully at normal speed
+         */
+        duration: number
+        /**
+         * Seconds it takes to wilt before being removed at normal speed
+         */
+        wiltDuration: number
+        /**
+         * Part of its length the stem has grown when the torus and stamens start to grow
+         */
+        torusThreshold: number
+        /**
+         * Part of its length the stem has grown when the petals start to grow
+         */
+        petalsThreshold: number
     }
 
     /**
-     * Install all polyfills
-     * @impure
+     * Models are .obj files, drawn with the texture next to them or with the materials of an .mtl file given instead,
+     * or .gltf and .glb files, which come with their own materials and leave the textures unused
      */
-    export function install() {
-        dateNow()
-        requestAnimationFrame()
+    export interface Species {
+        name: string
+        stem: StemDefinition
+        torus: TorusDefinition
+        stamen: StamenDefinition
+        petal: PetalDefinition
+        leaf: LeafDefinition
+        growth: GrowthDefinition
+        /**
+         * Half of the side of the square around a flower, which no other flower can stand in
+         */
+        footprint: number
     }
-}
 
-/**
- * Main Control flow
- */
-namespace control {
     /**
-     * THREE.js components
+     * A model, and the texture or material library it is drawn with, see objectLoading.AssetManager.load(),
+     * or a texture alone for generated meshes if the url of the model is empty
      */
-    namespace component {
-        export function Renderer(): THREE.WebGLRenderer {
-            const renderer = new THREE.WebGLRenderer({
-                alpha: true,
-                antialias: true
-            })
-            renderer.setSize(dom.canvas().clientWidth, dom.canvas().clientHeight)
-            renderer.setClearColor(0xcce0ff, 1.0)
-            return renderer
-        }
+    export interface Asset {
+        modelUrl: string
+        materialUrl: string
+    }
 
-        export function Camera(): THREE.PerspectiveCamera {
-            const camera = new THREE.PerspectiveCamera(
-                60,
-                dom.canvas().clientWidth / dom.canvas().clientHeight,
-                1,
-                3000
-            )
-            camera.position.set(-80, 60, 80)
-            camera.up.set(0, 1, 0)
-            return camera
-        }
+    /**
+     * Name of the built-in species
+     */
+    export const defaultName = 'default'
 
-        export function Scene(): THREE.Scene {
-            return new THREE.Scene()
-        }
+    /**
+     * Registered species by name
+     */
+    const registry: {[name: string]: Species} = {}
 
-        export function Light(): THREE.Light {
-            const light = new THREE.DirectionalLight(0xdfebff)
-            light.position.set(0, 100, 100)
-            light.castShadow = true
-            return light
+    /**
+     * Make a species available
+     * @param {Species} definition - the species
+     * @impure
+     */
+    export function register(definition: Species): void {
+        if (has(definition.name)) throw new error.IllegalArgumentError('Species ' + definition.name + ' is already registered')
+        if (definition.torus.textureUrls.length === 0
+            || definition.stamen.modelUrls.length === 0
+            || (definition.petal.shape === undefined && definition.petal.modelUrls.length === 0)
+            || (definition.petal.shape === undefined && definition.petal.textureUrls.length === 0)
+            || (definition.petal.shape !== undefined && definition.petal.shape.palettes.length === 0)
+            || definition.petal.count.min < 1
+            || definition.petal.whorls.min < 1) {
+            throw new error.IllegalArgumentError('Species ' + definition.name + ' has nothing to pick from')
         }
-
-        export function Fog(): THREE.Fog {
-            return new THREE.Fog(0xcce0ff, 250, 1000)
+        if (definition.stamen.count.min < 1
+            || definition.leaf.spacing <= 0
+            || definition.leaf.span.min < 0 || definition.leaf.span.max > 1
+            || definition.leaf.count.min > leafNodesOf(definition.leaf).length * leavesPerNode(definition.leaf)) {
+            throw new error.IllegalArgumentError('Species ' + definition.name + ' has invalid counts')
         }
-
-        export function OrbitControls(camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer)
-            : THREE.OrbitControls {
-            const orbitControls = new THREE.OrbitControls(camera, renderer.domElement)
-            orbitControls.enableDamping = true
-            orbitControls.dampingFactor = 0.20
-            orbitControls.enableZoom = true
-            orbitControls.autoRotate = false
-            orbitControls.minDistance  = 20
-            orbitControls.maxDistance  = 600
-            orbitControls.enablePan = true
-            orbitControls.target = new THREE.Vector3(0, 15, 0)
-            return orbitControls
+        if (definition.stem.length.min <= 0 || definition.stem.radius <= 0
+            || !(definition.stem.initialGrowth > 0 && definition.stem.initialGrowth <= 1)) {
+            throw new error.IllegalArgumentError('Species ' + definition.name + ' has an invalid stem')
         }
-
-        export function GridHelper(): THREE.GridHelper {
-            return new THREE.GridHelper(
-                1000,
-                100,
-                0xF0F0FF,
-                0xF0F8FF
-            )
+        const shape: PetalShapeDefinition | undefined = definition.petal.shape
+        if (shape !== undefined && (shape.widest.min <= 0 || shape.widest.max >= 1
+            || shape.subdivision < 0 || shape.subdivision > 5 || shape.subdivision % 1 !== 0
+            || shape.palettes.some(palette => palette.length !== 2))) {
+            throw new error.IllegalArgumentError('Species ' + definition.name + ' has an invalid petal shape')
         }
+        if (definition.footprint <= 0) {
+            throw new error.IllegalArgumentError('Species ' + definition.name + ' has an invalid footprint')
+        }
+        registry[definition.name] = definition
+    }
 
-        export function AxesHelper(): THREE.AxesHelper {
-            return new THREE.AxesHelper(50)
+    /**
+     * Get the heights of the nodes leaves grow at
+     * @param {LeafDefinition} definition - leaves of the species
+     * @returns {number[]} the heights, in [0, 1] from the root to the top of the stem
+     */
+    export function leafNodesOf(definition: LeafDefinition): number[] {
+        // a little room for rounding errors, so that the highest node is kept when the span is a multiple of the spacing
+        const count: number = Math.floor((definition.span.max - definition.span.min) / definition.spacing + 1e-9) + 1
+        return util.range(count).map(i => definition.span.min + definition.spacing * i)
+    }
+
+    /**
+     * Get the number of leaves at each node
+     * @param {LeafDefinition} definition - leaves of the species
+     * @returns {number} the number
+     */
+    export function leavesPerNode(definition: LeafDefinition): number {
+        switch (definition.phyllotaxis) {
+            case 'alternate':
+                return 1
+            case 'opposite':
+                return 2
+            default:
+                return definition.whorlSize
         }
     }
 
     /**
-     * THREE.js object loading utils
+     * Check whether a species is registered
+     * @param {string} name - name of the species
+     * @returns {boolean} result
      */
-    namespace objectLoading {
+    export function has(name: string): boolean {
+        return Object.prototype.hasOwnProperty.call(registry, name)
+    }
 
-        /**
-         * loading cache
-         */
-        const cache: any = {}
+    /**
+     * Get a registered species
+     * @param {string} name - name of the species
+     * @returns {Species} the species
+     */
+    export function get(name: string): Species {
+        if (!has(name)) throw new error.IllegalArgumentError('Unknown species ' + name)
+        return registry[name]
+    }
 
-        /**
-         * General object loading function
-         * @param {string} modelUrl - Url of the model to be load
-         * @param {string} modelTextureUrl - Url of the texture to be load
-         * @param {(event: ProgressEvent) => void} onProgress - progress reporting callback
-         */
-        function loadObject(
-            modelUrl: string,
-            modelTextureUrl: string,
-            onProgress = (event: ProgressEvent): void => {
-                if (event.lengthComputable) {
-                    console.log(Math.round(event.loaded / event.total * 100) + '% downloaded')
+    /**
+     * Collect every model a species may pick, with every texture it may be drawn with
+     * @param {Species} definition - the species
+     * @returns {Asset[]} the assets
+     */
+    export function assetsOf(definition: Species): Asset[] {
+        const combine = (modelUrls: string[], materialUrls: string[]): Asset[] => {
+            const assets: Asset[] = []
+            for (const modelUrl of modelUrls) {
+                for (const materialUrl of materialUrls) {
+                    assets.push({modelUrl: modelUrl, materialUrl: materialUrl})
                 }
             }
-        ): Promise<THREE.Group> {
-            return new Promise<THREE.Group>((resolve, reject) => {
-                // load texture
-                const textureLoader = new THREE.TextureLoader()
-                const map = textureLoader.load(modelTextureUrl)
-                // load obj
-                const objLoader = new THREE.OBJLoader()
-                objLoader.load(modelUrl, (object) => {
-                    const group = new THREE.Group()
-                    object.traverse((child) => {
-                        if (child instanceof THREE.Mesh){
-                            child.material = new THREE.MeshLambertMaterial({map: map})
-                            child.material.side = THREE.DoubleSide
-                            group.add(child.clone())
-                        }
-                    })
-                    resolve(group)
-                }, onProgress, (event: ErrorEvent) => reject(event))
-            })
+            return assets
         }
+        return combine([''], [definition.stem.textureUrl]).concat(
+            combine([definition.torus.modelUrl], definition.torus.textureUrls),
+            combine(definition.stamen.modelUrls, [definition.stamen.textureUrl]),
+            combine(definition.petal.modelUrls, definition.petal.textureUrls),
+            combine([definition.leaf.modelUrl], [definition.leaf.textureUrl])
+        )
+    }
+
+    /**
+     * Get the names of all registered species
+     * @returns {string[]} the names
+     */
+    export function names(): string[] {
+        return Object.keys(registry)
+    }
+
+    register({
+        name: defaultName,
+        stem: {
+            textureUrl: 'models/stem.jpg',
+            length: {min: 36, max: 46},
+            radius: 0.4,
+            lean: {min: 0, max: 0.12},
+            curvature: {min: -0.25, max: 0.25},
+            initialGrowth: 0.1
+        },
+        torus: {
+            modelUrl: 'models/torus.obj',
+            textureUrls: util.range(6).map(x => 'models/torus' + x + '.jpg'),
+            scale: [0.01, 0.01, 0.01],
+            position: [0, 0, 0],
+            rotationX: Math.PI * 0.2778
+        },
+        stamen: {
+            modelUrls: util.range(4).map(x => 'models/stamen' + x + '.obj'),
+            textureUrl: 'models/stamen.png',
+            scale: [0.02, 0.02, 0.02],
+            rotationX: 0.9,
+            center: [0, 0, 0],
+            radius: 1,
+            tilt: Math.PI / 4,
+            count: {min: 25, max: 30}
+        },
+        petal: {
+            modelUrls: ['petal0.obj', 'petal1.obj', 'petal2.obj', 'petal3.obj', 'petal4.obj'].map(x => 'models/' + x),
+            textureUrls: ['petal0.jpg', 'petal1.jpg', 'petal2.jpg', 'petal3.png', 'petal4.jpg', 'petal5.jpg'].map(x => 'models/' + x),
+            scale: [0.1, 0.1, 0.1],
+            position: [0, -0.5, 0],
+            count: {min: 4, max: 7},
+            whorls: {min: 1, max: 1},
+            tilt: 0.7,
+            closedAngle: 1.2,
+            openAngle: 0
+        },
+        leaf: {
+            modelUrl: 'models/leaf.obj',
+            textureUrl: 'models/stem.jpg',
+            scale: [0.1, 0.1, 0.1],
+            span: {min: 0.24, max: 0.75},
+            spacing: 0.1,
+            phyllotaxis: 'alternate',
+            whorlSize: 3,
+            count: {min: 1, max: 4}
+        },
+        growth: {
+            duration: 17.5,
+            wiltDuration: 4,
+            torusThreshold: 0.7,
+            petalsThreshold: 0.61
+        },
+        footprint: 10
+    })
+
+    const builtIn: Species = get(defaultName)
+    register({
+        name: 'wildflower',
+        stem: builtIn.stem,
+        torus: builtIn.torus,
+        stamen: builtIn.stamen,
+        petal: {
+            modelUrls: [],
+            textureUrls: [],
+            scale: builtIn.petal.scale,
+            position: builtIn.petal.position,
+            // up to double flowers
+            count: {min: 5, max: 24},
+            whorls: {min: 1, max: 3},
+            tilt: builtIn.petal.tilt,
+            closedAngle: builtIn.petal.closedAngle,
+            openAngle: builtIn.petal.openAngle,
+            // about the size of the petal models
+            shape: {
+                length: {min: 8.5, max: 11},
+                width: {min: 1.4, max: 2.4},
+                widest: {min: 0.3, max: 0.6},
+                curl: {min: -0.4, max: 0.6},
+                cupping: {min: 0.1, max: 0.5},
+                ruffle: {min: 0, max: 0.12},
+                ruffleWaves: {min: 2, max: 6},
+                palettes: [
+                    [0xffe0ec, 0xe83e8c],
+                    [0xfff6c8, 0xf5a623],
+                    [0xf2e6ff, 0x8e44ad],
+                    [0xffffff, 0xf7c6d9],
+                    [0xfff0e0, 0xd9381e]
+                ],
+                subdivision: 3
+            }
+        },
+        leaf: {
+            modelUrl: builtIn.leaf.modelUrl,
+            textureUrl: builtIn.leaf.textureUrl,
+            scale: builtIn.leaf.scale,
+            span: {min: 0.2, max: 0.7},
+            spacing: 0.16,
+            phyllotaxis: 'opposite',
+            whorlSize: 3,
+            count: {min: 2, max: 6}
+        },
+        growth: builtIn.growth,
+        footprint: builtIn.footprint
+    })
+}
+
+namespace model {
+    export interface Iterator<T> {
+        hasNext(): boolean
+        next(): T
+    }
+
+    export interface Enumerable<T> {
+        iterator(): Iterator<T>
+        all(): T[]
+    }
+
+    export interface Objects {
+
+    }
 
+    /**
+     * Shape of a stem, a spline in the vertical plane it leans in
+     */
+    export interface StemShape {
         /**
-         * Load land object
-         * @returns {Promise<Group>} land object in Promise
+         * Length once grown
          */
-        export async function loadLand(): Promise<THREE.Group> {
-            const land: THREE.Group = await loadObject('models/land.obj', 'models/land.jpg')
-            return threeEx.GroupHelper.of(land)
-                .scale(30, 30, 30)
-                .rotateY(-(Math.PI / 8 + Math.PI / 2))
-                .positioning(0, 10, 0)
-                .show()
-                .collect()
-        }
-
+        length: number
         /**
-         * Load stem object
-         * @returns {Promise<Group>} stem object in Promise
+         * Angle in radians the stem leans by from the vertical at its root
          */
-        export async function loadStem(): Promise<THREE.Group> {
-            const modelUrl = 'models/stem.obj'
-            const textureUrl = 'models/stem.jpg'
-            const stemName = 'stem_' + modelUrl + textureUrl
-            if (cache[stemName] === undefined) {
-                cache[stemName] = await loadObject(modelUrl, textureUrl)
-            }
-            return threeEx.GroupHelper.of(cache[stemName])
-                .clone()
-                .scale(1, 0.1, 0.1)
-                .show()
-                .collect()
-        }
-
+        lean: number
         /**
-         * Load torus object
-         * @returns {Promise<Group>} torus object in Promise
+         * Direction the stem leans towards, in radians around the vertical axis, 0 towards +x and PI / 2 towards +z
          */
-        export async function loadTorus(): Promise<THREE.Group> {
-            const modelUrl = 'models/torus.obj'
-            const textureUrl: string = util.randomlyPick(util.range(6).map(x => 'models/torus' + x + '.jpg'))
-            const torusName = 'torus_' + modelUrl + textureUrl
-            if (cache[torusName] === undefined) {
-                cache[torusName] = await loadObject(modelUrl, textureUrl)
-            }
-            return threeEx.GroupHelper.of(cache[torusName])
-                .clone()
-                .scale(0.01, 0.01, 0.01)
-                .positioning(0.5, 29.5, 0.125)
-                .rotateX(Math.PI * 0.2778)
-                .hide()
-                .collect()
-        }
-
+        direction: number
         /**
-         * Load stamens object
-         * @returns {Promise<Group[]>} stamens object in Promise
+         * Angle in radians the stem turns by from its root to its top, further the way it leans if positive
          */
-        export async function loadStamens(): Promise<THREE.Group[]> {
-            const modelUrl: string = util.randomlyPick(util.range(4).map(x => 'models/stamen' + x + '.obj'))
-            const textureUrl = 'models/stamen.png'
-            const stamenName = 'stamen_' + modelUrl + textureUrl
-            if (cache[stamenName] === undefined) {
-                cache[stamenName] = await loadObject(modelUrl, textureUrl)
-            }
-            const basicGroupHelper =
-                threeEx.GroupHelper.of(cache[stamenName])
-                    .clone()
-                    .scale(0.02, 0.02, 0.02)
-                    .positioning(0, 29.5, 0)
-                    .rotateX(0.9)
-                    .hide()
-            const positions = [
-                [-0.5, 29.5, 0],
-                [-0.25, 29.75, -0.25],
-                [-0.25, 29.5, 0],
-                [-0.25, 29.25, 0.25],
-                [0, 30, -0.5],
-                [0, 29.75, -0.25],
-                [0, 29.5, 0],
-                [0, 29.25, 0.25],
-                [0, 29, 0.5],
-                [0.25, 30, -0.5],
-                [0.25, 29.75, -0.25],
-                [0.25, 29.5, 0],
-                [0.25, 29.25, 0.25],
-                [0.25, 29, 0.5],
-                [0.5, 30, -0.5],
-                [0.5, 29.75, -0.25],
-                [0.5, 29.5, 0],
-                [0.5, 29.25, 0.25],
-                [0.5, 29, 0.5],
-                [0.75, 30, -0.5],
-                [0.75, 29.75, -0.25],
-                [0.75, 29.5, 0],
-                [0.75, 29.25, 0.25],
-                [0.75, 29, 0.5],
-                [1, 30, -0.5],
-                [1, 29.75, -0.25],
-                [1, 29.5, 0],
-                [1, 29.25, 0.25],
-                [1, 29, 0.5],
-                [1.25, 29.75, -0.25],
-                [1.25, 29.5, 0],
-                [1.25, 29.25, 0.25],
-                [1.5, 29.5, 0]
+        curvature: number
+    }
+
+    /**
+     * Shape of generated petals, in the frame of the petal models: from the base at the origin towards -z,
+     * facing +y, see petalShaping
+     */
+    export interface PetalShape {
+        length: number
+        /**
+         * Half of the width where the petal is widest
+         */
+        width: number
+        /**
+         * Where the petal is widest, in (0, 1) from the base to the tip
+         */
+        widest: number
+        /**
+         * Angle in radians the petal bends by from the base to the tip, upwards if positive
+         */
+        curl: number
+        /**
+         * How high the edges rise, relative to the width
+         */
+        cupping: number
+        /**
+         * How high the waves of the edges are, relative to the width
+         */
+        ruffle: number
+        /**
+         * Number of waves along each edge
+         */
+        ruffleWaves: number
+        baseColor: number
+        tipColor: number
+        /**
+         * Each level doubles the vertices along and across the petal
+         */
+        subdivision: number
+    }
+
+    /**
+     * Every random choice made when a flower is created
+     */
+    export interface FlowerTraits {
+        /**
+         * Name of the species, see species.get()
+         */
+        species: string
+        stemShape: StemShape
+        torusTextureUrl: string
+        stamenModelUrl: string
+        /**
+         * Empty if the petals are generated
+         */
+        petalModelUrl: string
+        /**
+         * Empty if the petals are generated
+         */
+        petalTextureUrl: string
+        /**
+         * Shape of the petals if they are generated
+         */
+        petalShape?: PetalShape
+        petalCount: number
+        /**
+         * Number of whorls the petals are arranged in, see arranging.petals()
+         */
+        petalWhorls: number
+        stamenCount: number
+        /**
+         * Initial [x, y] rotation of each leaf, the y one turning it from its place along the stem,
+         * see arranging.leaves()
+         */
+        leafRotations: number[][]
+        /**
+         * Whether each leaf will be shown
+         */
+        leavesLottery: boolean[]
+    }
+
+    /**
+     * Where a flower comes from
+     */
+    export interface Lineage {
+        /**
+         * Number identifying the flower among the flowers of the garden
+         */
+        id: number
+        /**
+         * Ids of the mother and the father of the flower, empty if it was not bred from other flowers
+         */
+        parents: number[]
+        /**
+         * 0 for a flower not bred from other flowers, one more than the later of its parents otherwise
+         */
+        generation: number
+    }
+
+    export class Flower implements Objects, Enumerable<THREE.Object3D> {
+        private constructor(public stem: THREE.Group,
+                            public torus: THREE.Group,
+                            public stamens: THREE.Group[],
+                            public petals: THREE.Group[],
+                            public leaves: THREE.Group[],
+                            readonly traits: FlowerTraits,
+                            public random: prng.RandomGenerator) {}
+
+        /**
+         * Growth progress in [0, 1], 1 for fully grown
+         */
+        progress = 0
+
+        /**
+         * Wilting progress in [0, 1] before the flower is removed, null if it is not wilting
+         */
+        wilting: number | null = null
+
+        /**
+         * Largest id of the flowers so far, see Lineage.id
+         */
+        private static lastId = 0
+
+        /**
+         * Where the flower comes from, a flower of its own until told otherwise, see descendFrom()
+         */
+        lineage: Lineage = {id: ++Flower.lastId, parents: [], generation: 0}
+
+        static of(stem: THREE.Group, torus: THREE.Group,
+                  stamens: THREE.Group[], petals: THREE.Group[], leaves: THREE.Group[],
+                  traits: FlowerTraits, random: prng.RandomGenerator = prng.fork()): Flower {
+            return new Flower(stem, torus, stamens, petals, leaves, traits, random)
+        }
+
+        iterator(): Iterator<THREE.Object3D> {
+            class ObjectIterator implements Iterator<THREE.Object3D> {
+                constructor(objects: (THREE.Object3D | THREE.Object3D[])[]) {
+                    for (const object of objects) {
+                        if (object instanceof THREE.Object3D) {
+                            this.objects.push(object)
+                        } else {
+                            for (const singleObject of object) {
+                                this.objects.push(singleObject)
+                            }
+                        }
+                    }
+                }
+                private objects: THREE.Object3D[] = []
+                private index = 0
+
+                hasNext(): boolean {
+                    return this.index < this.objects.length
+                }
+
+                next(): THREE.Object3D {
+                    if (!this.hasNext()) throw new error.IllegalStateError('Iterator doesn\'t have next item')
+                    return this.objects[this.index++]
+                }
+
+            }
+
+            return new ObjectIterator([this.stem, this.torus, this.stamens, this.petals, this.leaves])
+        }
+
+        all(): THREE.Object3D[] {
+            const iterator: Iterator<THREE.Object3D> = this.iterator()
+            const result: THREE.Object3D[] = []
+            while (iterator.hasNext()) {
+                result.push(iterator.next())
+            }
+            return result
+        }
+
+        clone(): Flower {
+            const flower: Flower = Flower.of(
+                this.stem.clone(),
+                this.torus.clone(),
+                threeEx.ObjectsHelper.of(this.stamens).clone().collect(),
+                threeEx.ObjectsHelper.of(this.petals).clone().collect(),
+                threeEx.ObjectsHelper.of(this.leaves).clone().collect(),
+                this.traits,
+                this.random.fork()
+            )
+            flower.progress = this.progress
+            return flower
+        }
+
+        /**
+         * Record the parents the flower was bred from
+         * @param {Flower} mother - the parent bearing the seed
+         * @param {Flower} father - the parent giving the pollen
+         * @returns {Flower} this
+         * @impure
+         */
+        descendFrom(mother: Flower, father: Flower): this {
+            this.lineage.parents = [mother.lineage.id, father.lineage.id]
+            this.lineage.generation = Math.max(mother.lineage.generation, father.lineage.generation) + 1
+            return this
+        }
+
+        /**
+         * Give the flower back the lineage it had, e.g. before it was saved, the flowers coming after it
+         * getting other ids
+         * @param {Lineage} lineage - the lineage
+         * @returns {Flower} this
+         * @impure
+         */
+        restoreLineage(lineage: Lineage): this {
+            this.lineage = {id: lineage.id, parents: lineage.parents.slice(), generation: lineage.generation}
+            Flower.lastId = Math.max(Flower.lastId, lineage.id)
+            return this
+        }
+
+        getCentralPosition(): THREE.Vector3 {
+            const vectors: THREE.Vector3[] = this.all().map(object => object.position)
+            return util.math.meanVector(vectors)
+        }
+
+        getProjectionArea(): number[][] {
+            const footprint: spatial.Bounds = this.getFootprint()
+            return [
+                [footprint.xMin, footprint.zMin],
+                [footprint.xMax, footprint.zMin],
+                [footprint.xMax, footprint.zMax],
+                [footprint.xMin, footprint.zMax],
             ]
-            const stamens: THREE.Group[] = []
-            for (const position of positions) {
-                stamens.push(
-                    basicGroupHelper
-                        .clone()
-                        .positioning(position[0], position[1], position[2])
-                        .collect()
-                )
+        }
+
+        /**
+         * Get the square of land no other flower can stand in, see species.Species.footprint
+         * @returns {Bounds} the square
+         */
+        getFootprint(): spatial.Bounds {
+            const reference: THREE.Vector3 = this.stem.position
+            return spatial.square(reference.x, reference.z, species.get(this.traits.species).footprint)
+        }
+
+        moveHorizontallyTo(destination: THREE.Vector3): this {
+            this.all().map(object => object.position.setX(destination.x).setZ(destination.z))
+            return this
+        }
+
+        /**
+         * Move every part of the flower, keeping their relative positions
+         * @param {number} x - delta along x
+         * @param {number} y - delta along y
+         * @param {number} z - delta along z
+         * @returns {Flower} this
+         * @impure
+         */
+        moveBy(x: number, y: number, z: number): this {
+            this.all().map(object => {
+                object.position.x += x
+                object.position.y += y
+                object.position.z += z
+            })
+            return this
+        }
+
+        /**
+         * Move the flower to a random position accepted by a predicate, trying a limited number of positions
+         * @param {(x: number, z: number) => boolean} accept - whether the flower can be moved to a position
+         * @param {{xMin?: number, xMax?: number, zMin?: number, zMax?: number}} bounds - distance of the
+         * position along x and z, from the current one
+         * @param {number} maxAttempts - how many positions are tried
+         * @returns {Flower | null} this, or null if no position was accepted, the flower staying where it is
+         * @impure
+         */
+        moveRandomly(accept: (x: number, z: number) => boolean,
+                     bounds?: {xMin?: number, xMax?: number, zMin?: number, zMax?: number},
+                     maxAttempts: number = constant.flower.maxPlacementAttempts): this | null {
+            // set defaults
+            if (bounds === undefined) bounds = {}
+            if (bounds.xMin === undefined) bounds.xMin = constant.flower.positionInterval.min
+            if (bounds.zMin === undefined) bounds.zMin = constant.flower.positionInterval.min
+            if (bounds.xMax === undefined) bounds.xMax = constant.flower.positionInterval.max
+            if (bounds.zMax === undefined) bounds.zMax = constant.flower.positionInterval.max
+            // check validity
+            if (bounds.xMin < 0 || bounds.zMin < 0 || bounds.xMax < bounds.xMin || bounds.zMax < bounds.zMin)
+                throw new error.IllegalArgumentError('Invalid bounds')
+
+            const reference: THREE.Vector3 = this.stem.position
+            for (let attempt = 0; attempt < maxAttempts; attempt++) {
+                const xDelta: number = util.randomlyPick([
+                    util.random(-bounds.xMax, -bounds.xMin, this.random),
+                    util.random(bounds.xMin, bounds.xMax, this.random)
+                ], this.random)
+                const zDelta: number = util.randomlyPick([
+                    util.random(-bounds.zMax, -bounds.zMin, this.random),
+                    util.random(bounds.zMin, bounds.zMax, this.random)
+                ], this.random)
+                if (accept(reference.x + xDelta, reference.z + zDelta)) {
+                    return this.moveBy(xDelta, 0, zDelta)
+                }
+            }
+            return null
+        }
+    }
+}
+
+/**
+ * Crossing flowers, whose traits are their genes
+ */
+namespace genetics {
+    /**
+     * Genes of a flower, every random choice made when it was created
+     */
+    export type Genome = model.FlowerTraits
+
+    /**
+     * Mix the genes of two parents, each gene coming from either one or, for sizes and counts, lying between both
+     * The offspring is of the species of the mother, and keeps her genes wherever the father's don't suit it
+     * @param {Genome} mother - genes of the parent bearing the seed
+     * @param {Genome} father - genes of the parent giving the pollen
+     * @param {RandomGenerator} random - source of randomness
+     * @returns {Genome} genes of the offspring
+     * @impure
+     */
+    export function crossover(mother: Genome, father: Genome, random: prng.RandomGenerator): Genome {
+        const definition: species.Species = species.get(mother.species)
+        const either = <T>(own: T, other: T) => random.next() < 0.5 ? own : other
+        const blend = (own: number, other: number, range: species.Range) =>
+            clamp(own + (other - own) * random.next(), range)
+        const count = (own: number, other: number, range: species.Range) => Math.round(blend(own, other, range))
+        // the genes of the father are only taken if the species of the mother could have picked them
+        const suiting = (own: string, other: string, options: string[]) =>
+            options.indexOf(other) === -1 ? own : either(own, other)
+        const petalCount: number = count(mother.petalCount, father.petalCount, definition.petal.count)
+        const genome: Genome = {
+            species: mother.species,
+            stemShape: {
+                length: blend(mother.stemShape.length, father.stemShape.length, definition.stem.length),
+                lean: blend(mother.stemShape.lean, father.stemShape.lean, definition.stem.lean),
+                direction: either(mother.stemShape.direction, father.stemShape.direction),
+                curvature: blend(mother.stemShape.curvature, father.stemShape.curvature, definition.stem.curvature)
+            },
+            torusTextureUrl: suiting(mother.torusTextureUrl, father.torusTextureUrl, definition.torus.textureUrls),
+            stamenModelUrl: suiting(mother.stamenModelUrl, father.stamenModelUrl, definition.stamen.modelUrls),
+            petalModelUrl: mother.petalModelUrl,
+            petalTextureUrl: mother.petalTextureUrl,
+            petalCount: petalCount,
+            petalWhorls: whorlsOf(either(mother.petalWhorls, father.petalWhorls), petalCount),
+            stamenCount: count(mother.stamenCount, father.stamenCount, definition.stamen.count),
+            leafRotations: [],
+            leavesLottery: []
+        }
+        const shape: species.PetalShapeDefinition | undefined = definition.petal.shape
+        if (shape === undefined) {
+            genome.petalModelUrl = suiting(mother.petalModelUrl, father.petalModelUrl, definition.petal.modelUrls)
+            genome.petalTextureUrl =
+                suiting(mother.petalTextureUrl, father.petalTextureUrl, definition.petal.textureUrls)
+        } else if (mother.petalShape !== undefined) {
+            const own: model.PetalShape = mother.petalShape
+            const other: model.PetalShape = father.petalShape || own
+            // both colors come from the same parent, so that the gradient stays one of the palettes
+            const colors: model.PetalShape = either(own, other)
+            genome.petalShape = {
+                length: blend(own.length, other.length, shape.length),
+                width: blend(own.width, other.width, shape.width),
+                widest: blend(own.widest, other.widest, shape.widest),
+                curl: blend(own.curl, other.curl, shape.curl),
+                cupping: blend(own.cupping, other.cupping, shape.cupping),
+                ruffle: blend(own.ruffle, other.ruffle, shape.ruffle),
+                ruffleWaves: either(own.ruffleWaves, other.ruffleWaves),
+                baseColor: colors.baseColor,
+                tipColor: colors.tipColor,
+                subdivision: shape.subdivision
             }
-            return stamens
         }
+        // a father of another species grows his leaves at other places, but leaves turn the same way anywhere
+        util.range(mother.leafRotations.length).forEach(i => {
+            const fromFather: boolean = i < father.leafRotations.length && random.next() < 0.5
+            genome.leafRotations.push((fromFather ? father : mother).leafRotations[i].slice())
+            genome.leavesLottery.push((fromFather ? father : mother).leavesLottery[i])
+        })
+        boundLottery(genome.leavesLottery, definition.leaf.count, random)
+        return genome
+    }
+
+    /**
+     * Let some genes change, each one turning into the gene of another genome at a given rate
+     * @param {Genome} genome - the genes, left as they are
+     * @param {Genome} mutant - genes of the same species to mutate into, e.g. randomly picked ones
+     * @param {number} rate - chance of each gene to mutate, in [0, 1]
+     * @param {RandomGenerator} random - source of randomness
+     * @returns {Genome} the mutated genes
+     * @impure
+     */
+    export function mutate(genome: Genome, mutant: Genome, rate: number, random: prng.RandomGenerator): Genome {
+        if (rate < 0 || rate > 1) throw new error.IllegalArgumentError('Invalid mutation rate')
+        if (mutant.species !== genome.species) {
+            throw new error.IllegalArgumentError('Cannot mutate into another species')
+        }
+        const definition: species.Species = species.get(genome.species)
+        const mutates = () => random.next() < rate
+        const result: Genome = {
+            species: genome.species,
+            stemShape: mutates() ? mutant.stemShape : genome.stemShape,
+            torusTextureUrl: mutates() ? mutant.torusTextureUrl : genome.torusTextureUrl,
+            stamenModelUrl: mutates() ? mutant.stamenModelUrl : genome.stamenModelUrl,
+            petalModelUrl: genome.petalModelUrl,
+            petalTextureUrl: genome.petalTextureUrl,
+            petalCount: mutates() ? mutant.petalCount : genome.petalCount,
+            petalWhorls: mutates() ? mutant.petalWhorls : genome.petalWhorls,
+            stamenCount: mutates() ? mutant.stamenCount : genome.stamenCount,
+            leafRotations: [],
+            leavesLottery: []
+        }
+        result.petalWhorls = whorlsOf(result.petalWhorls, result.petalCount)
+        // the model and texture of the petals mutate together, so that the petals are drawn as a pair of the species
+        if (mutates()) {
+            result.petalModelUrl = mutant.petalModelUrl
+            result.petalTextureUrl = mutant.petalTextureUrl
+        }
+        if (genome.petalShape !== undefined) {
+            result.petalShape = mutates() && mutant.petalShape !== undefined ? mutant.petalShape : genome.petalShape
+        }
+        util.range(genome.leafRotations.length).forEach(i => {
+            const mutated: boolean = i < mutant.leafRotations.length && mutates()
+            result.leafRotations.push((mutated ? mutant : genome).leafRotations[i].slice())
+            result.leavesLottery.push((mutated ? mutant : genome).leavesLottery[i])
+        })
+        boundLottery(result.leavesLottery, definition.leaf.count, random)
+        return result
+    }
+
+    /**
+     * Bring a value into a range
+     * @param {number} value - the value
+     * @param {Range} range - the range
+     * @returns {number} the closest value in range
+     */
+    function clamp(value: number, range: species.Range): number {
+        return Math.max(range.min, Math.min(range.max, value))
+    }
+
+    /**
+     * Get the number of whorls petals can be arranged in, at least 3 petals in each whorl
+     * @param {number} whorls - the wanted number of whorls
+     * @param {number} petalCount - number of petals
+     * @returns {number} the number of whorls
+     */
+    function whorlsOf(whorls: number, petalCount: number): number {
+        return Math.max(1, Math.min(whorls, Math.floor(petalCount / 3)))
+    }
+
+    /**
+     * Show or hide leaves until the number of shown leaves is in range, picking the leaves at random
+     * @param {boolean[]} lottery - whether each leaf is shown
+     * @param {Range} range - range of the number of shown leaves
+     * @param {RandomGenerator} random - source of randomness
+     * @impure
+     */
+    function boundLottery(lottery: boolean[], range: species.Range, random: prng.RandomGenerator): void {
+        const indicesOf = (shown: boolean) => util.range(lottery.length).filter(i => lottery[i] === shown)
+        while (indicesOf(true).length < Math.min(range.min, lottery.length)) {
+            lottery[util.randomlyPick(indicesOf(false), random)] = true
+        }
+        while (indicesOf(true).length > Math.max(range.max, 0)) {
+            lottery[util.randomlyPick(indicesOf(true), random)] = false
+        }
+    }
+}
+
+/**
+ * Saving and restoring gardens as JSON
+ */
+namespace persistence {
+    /**
+     * Version of the format written by this app
+     */
+    export const version = 6
+
+    /**
+     * Default localStorage key
+     */
+    export const storageKey = 'webflowers.garden'
+
+    export interface RandomData {
+        seed: number
+        state: number
+    }
+
+    export interface FlowerData {
+        traits: model.FlowerTraits
+        random: RandomData
+        /**
+         * [x, y, z] position of the stem
+         */
+        position: number[]
+        /**
+         * Growth progress in [0, 1]
+         */
+        progress: number
+        lineage: model.Lineage
+    }
+
+    export interface GardenData {
+        version: number
+        /**
+         * State of the garden generator, so that flowers generated after restoring follow the same sequence
+         */
+        random: RandomData
+        flowers: FlowerData[]
+    }
+
+    /**
+     * Transform of a flower part, as written by version 1
+     */
+    interface TransformDataV1 {
+        position: number[]
+        rotation: number[]
+        scale: number[]
+        visible: boolean
+    }
+
+    /**
+     * Flower as written by version 1, which recorded the transform of every part instead of the growth progress
+     */
+    interface FlowerDataV1 {
+        traits: model.FlowerTraits
+        random: RandomData
+        stem: TransformDataV1
+    }
+
+    /**
+     * Traits as written by version 2, which picked the rotations of the petals among fixed layouts
+     * instead of the number of petals
+     */
+    interface FlowerTraitsV2 {
+        petalRotations?: number[][]
+    }
+
+    /**
+     * Traits as written by version 3, which picked the stamens to show among fixed positions
+     * instead of the number of stamens
+     */
+    interface FlowerTraitsV3 {
+        stamensLottery?: boolean[]
+    }
+
+    /**
+     * Capture the state of a random generator
+     * @param {RandomGenerator} generator - the generator
+     * @returns {RandomData} the state
+     */
+    export function captureRandom(generator: prng.RandomGenerator): RandomData {
+        return {seed: generator.seed, state: generator.getState()}
+    }
+
+    /**
+     * Recreate a random generator from its captured state
+     * @param {RandomData} data - the state
+     * @returns {RandomGenerator} the generator
+     */
+    export function restoreRandom(data: RandomData): prng.RandomGenerator {
+        return prng.RandomGenerator.restore(data.seed, data.state)
+    }
+
+    /**
+     * Describe a flower
+     * @param {Flower} flower - the flower
+     * @returns {FlowerData} the description
+     */
+    export function serializeFlower(flower: model.Flower): FlowerData {
+        return {
+            traits: flower.traits,
+            random: captureRandom(flower.random),
+            position: flower.stem.position.toArray(),
+            progress: flower.progress,
+            lineage: flower.lineage
+        }
+    }
+
+    /**
+     * Bring a flower built from the same traits to the described position and growth progress
+     * @param {Flower} flower - the flower
+     * @param {FlowerData} data - the description
+     * @impure
+     */
+    export function applyFlower(flower: model.Flower, data: FlowerData): void {
+        const reference: THREE.Vector3 = flower.stem.position
+        flower.moveBy(data.position[0] - reference.x, data.position[1] - reference.y, data.position[2] - reference.z)
+        flower.progress = Math.max(0, Math.min(1, data.progress))
+        flower.random = restoreRandom(data.random)
+        flower.restoreLineage(data.lineage)
+    }
+
+    /**
+     * Upgrade a version 1 flower, estimating its progress from the stem scale
+     * @param {FlowerDataV1} data - the flower
+     * @returns {FlowerData} the upgraded flower
+     */
+    function migrateFlowerV1(data: FlowerDataV1): FlowerData {
+        if (data.traits.species === undefined) data.traits.species = species.defaultName
+        const stemScale: number = data.stem.scale[1]
+        // the stem grew by 0.001 per frame from 0.1, and the flower was fully grown after 1050 frames
+        // the lineage is given by migrateFlowerV5()
+        return <FlowerData>{
+            traits: data.traits,
+            random: data.random,
+            position: data.stem.position,
+            progress: Math.max(0, Math.min(1, (stemScale - 0.1) / 0.001 / 1050))
+        }
+    }
+
+    /**
+     * Upgrade a version 2 flower, keeping the number of petals of its layout in a single whorl
+     * @param {FlowerData} data - the flower
+     * @returns {FlowerData} the upgraded flower
+     */
+    function migrateFlowerV2(data: FlowerData): FlowerData {
+        const traits = <FlowerTraitsV2><any>data.traits
+        data.traits.petalCount = (traits.petalRotations || []).length
+        data.traits.petalWhorls = 1
+        delete traits.petalRotations
+        return data
+    }
+
+    /**
+     * Upgrade a version 3 flower, keeping the number of stamens it showed, and giving it as many leaves as
+     * its species places along the stem instead of the fixed leaf slots
+     * @param {FlowerData} data - the flower
+     * @returns {FlowerData} the upgraded flower
+     */
+    function migrateFlowerV3(data: FlowerData): FlowerData {
+        const traits = <FlowerTraitsV3><any>data.traits
+        data.traits.stamenCount = (traits.stamensLottery || []).filter(shown => shown).length
+        delete traits.stamensLottery
+        if (species.has(data.traits.species)) {
+            migrateLeaves(data.traits, species.get(data.traits.species).leaf)
+        }
+        return data
+    }
+
+    /**
+     * Resize the leaves of a flower to the leaves its species places, new leaves being hidden and not turned,
+     * then show leaves from the root upwards or hide them from the top downwards until as many are shown as
+     * the species allows
+     * @param {FlowerTraits} traits - traits of the flower
+     * @param {LeafDefinition} definition - leaves of the species
+     * @impure
+     */
+    function migrateLeaves(traits: model.FlowerTraits, definition: species.LeafDefinition): void {
+        const count: number = species.leafNodesOf(definition).length * species.leavesPerNode(definition)
+        const rotations: number[][] = traits.leafRotations.slice(0, count)
+        const lottery: boolean[] = traits.leavesLottery.slice(0, count)
+        while (rotations.length < count) rotations.push([0, 0])
+        while (lottery.length < count) lottery.push(false)
+        let shown: number = lottery.filter(isShown => isShown).length
+        for (let i = 0; i < count && shown < definition.count.min; i++) {
+            if (!lottery[i]) {
+                lottery[i] = true
+                shown++
+            }
+        }
+        for (let i = count - 1; i >= 0 && shown > definition.count.max; i--) {
+            if (lottery[i]) {
+                lottery[i] = false
+                shown--
+            }
+        }
+        traits.leafRotations = rotations
+        traits.leavesLottery = lottery
+    }
+
+    /**
+     * Upgrade a version 4 flower, whose stem was a model, giving it a straight stem as high as the model
+     * @param {FlowerData} data - the flower
+     * @returns {FlowerData} the upgraded flower
+     */
+    function migrateFlowerV4(data: FlowerData): FlowerData {
+        data.traits.stemShape = {length: 41.4, lean: 0, direction: 0, curvature: 0}
+        return data
+    }
+
+    /**
+     * Upgrade a version 5 flower, which had no lineage, as a flower not bred from other flowers
+     * @param {FlowerData} data - the flower
+     * @param {number} index - index of the flower in its garden
+     * @returns {FlowerData} the upgraded flower
+     */
+    function migrateFlowerV5(data: FlowerData, index: number): FlowerData {
+        data.lineage = {id: index + 1, parents: [], generation: 0}
+        return data
+    }
+
+    /**
+     * Convert a garden to JSON
+     * @param {GardenData} garden - the garden
+     * @returns {string} JSON text
+     */
+    export function stringify(garden: GardenData): string {
+        return JSON.stringify(garden)
+    }
+
+    /**
+     * Parse a garden from JSON
+     * @param {string} json - JSON text
+     * @returns {GardenData} the garden
+     */
+    export function parse(json: string): GardenData {
+        let garden: GardenData
+        try {
+            garden = JSON.parse(json)
+        } catch (e) {
+            throw new error.IllegalArgumentError('Garden is not valid JSON')
+        }
+        if (typeof garden !== 'object' || garden === null || !(garden.flowers instanceof Array) || !garden.random) {
+            throw new error.IllegalArgumentError('Garden is malformed')
+        }
+        if (garden.version === 1) {
+            garden = {
+                version: 2,
+                random: garden.random,
+                flowers: (<FlowerDataV1[]><any[]>garden.flowers).map(migrateFlowerV1)
+            }
+        }
+        if (garden.version === 2) {
+            garden = {
+                version: 3,
+                random: garden.random,
+                flowers: garden.flowers.map(migrateFlowerV2)
+            }
+        }
+        if (garden.version === 3) {
+            garden = {
+                version: 4,
+                random: garden.random,
+                flowers: garden.flowers.map(migrateFlowerV3)
+            }
+        }
+        if (garden.version === 4) {
+            garden = {
+                version: 5,
+                random: garden.random,
+                flowers: garden.flowers.map(migrateFlowerV4)
+            }
+        }
+        if (garden.version === 5) {
+            garden = {
+                version: version,
+                random: garden.random,
+                flowers: garden.flowers.map(migrateFlowerV5)
+            }
+        }
+        if (garden.version !== version) {
+            throw new error.IllegalArgumentError('Unsupported garden version ' + garden.version)
+        }
+        return garden
+    }
+
+    /**
+     * Save a garden to localStorage
+     * @param {GardenData} garden - the garden
+     * @param {string} key - localStorage key
+     * @impure
+     */
+    export function saveToStorage(garden: GardenData, key = storageKey): void {
+        window.localStorage.setItem(key, stringify(garden))
+    }
+
+    /**
+     * Load a garden from localStorage
+     * @param {string} key - localStorage key
+     * @returns {GardenData | null} the garden, or null if nothing has been saved
+     */
+    export function loadFromStorage(key = storageKey): GardenData | null {
+        const json: string | null = window.localStorage.getItem(key)
+        if (json === null) return null
+        return parse(json)
+    }
+
+    /**
+     * Let the browser download a garden as a file
+     * @param {GardenData} garden - the garden
+     * @param {string} filename - name of the file
+     * @impure
+     */
+    export function download(garden: GardenData, filename = 'garden.json'): void {
+        dom.download(new Blob([stringify(garden)], {type: 'application/json'}), filename)
+    }
+
+    /**
+     * Read a garden from a file, e.g. one chosen in an <input type="file">
+     * @param {File} file - the file
+     * @returns {Promise<GardenData>} the garden in Promise
+     */
+    export function readFile(file: File): Promise<GardenData> {
+        return new Promise<GardenData>((resolve, reject) => {
+            const reader = new FileReader()
+            reader.onload = () => {
+                try {
+                    resolve(parse(<string>reader.result))
+                } catch (e) {
+                    reject(e)
+                }
+            }
+            reader.onerror = () => reject(reader.error)
+            reader.readAsText(file)
+        })
+    }
+}
+
+namespace polyfills {
+    /**
+     * Polyfill for Date.now
+     * @impure
+     */
+    function dateNow() {
+        if (!Date.now)
+            Date.now = function() { return new Date().getTime() }
+    }
+
+    /**
+     * Polyfill for window.requestAnimationFrame
+     * @requires dateNow()
+     * @impure
+     */
+    function requestAnimationFrame() {
+        const vendors = ['webkit', 'moz']
+        for (let i = 0; i < vendors.length && !window.requestAnimationFrame; ++i) {
+            const vp = vendors[i]
+            window.requestAnimationFrame = (window as any)[vp+'RequestAnimationFrame']
+            window.cancelAnimationFrame = ((window as any)[vp+'CancelAnimationFrame']
+                || (window as any)[vp+'CancelRequestAnimationFrame'])
+        }
+        if (/iP(ad|hone|od).*OS 6/.test(window.navigator.userAgent) // iOS6 is buggy
+            || !window.requestAnimationFrame || !window.cancelAnimationFrame) {
+            let lastTime = 0
+            window.requestAnimationFrame = function(callback) {
+                const now = Date.now()
+                const nextTime = Math.max(lastTime + 16, now)
+                return setTimeout(function() { callback(lastTime = nextTime) },
+                    nextTime - now)
+            }
+            window.cancelAnimationFrame = clearTimeout
+        }
+    }
+
+    /**
+     * Install all polyfills
+     * @impure
+     */
+    export function install() {
+        dateNow()
+        requestAnimationFrame()
+    }
+}
+
+/**
+ * Main Control flow
+ */
+namespace control {
+    /**
+     * THREE.js components
+     */
+    namespace component {
+        export function Renderer(): THREE.WebGLRenderer {
+            const renderer = new THREE.WebGLRenderer({
+                alpha: true,
+                antialias: true,
+                // keep the last frame, so the canvas can be captured at any time
+                preserveDrawingBuffer: true
+            })
+            renderer.setSize(dom.canvas().clientWidth, dom.canvas().clientHeight)
+            renderer.setClearColor(0xcce0ff, 1.0)
+            renderer.shadowMap.enabled = true
+            renderer.shadowMap.type = THREE.PCFSoftShadowMap
+            return renderer
+        }
+
+        export function Camera(): THREE.PerspectiveCamera {
+            const camera = new THREE.PerspectiveCamera(
+                60,
+                dom.canvas().clientWidth / dom.canvas().clientHeight,
+                1,
+                3000
+            )
+            camera.position.set(-80, 60, 80)
+            camera.up.set(0, 1, 0)
+            return camera
+        }
+
+        export function Scene(): THREE.Scene {
+            return new THREE.Scene()
+        }
+
+        export function Sun(): THREE.DirectionalLight {
+            const light = new THREE.DirectionalLight(0xdfebff)
+            light.position.set(0, 100, 100)
+            light.castShadow = true
+            light.shadow.mapSize.set(2048, 2048)
+            // keeps the lit faces from shadowing themselves
+            light.shadow.bias = -0.0005
+            return light
+        }
+
+        export function AmbientLight(): THREE.AmbientLight {
+            return new THREE.AmbientLight(0x404040, 0.2)
+        }
+
+        export function HemisphereLight(): THREE.HemisphereLight {
+            return new THREE.HemisphereLight(0xcce0ff, 0x556b2f, 0.4)
+        }
+
+        export function Fog(): THREE.Fog {
+            return new THREE.Fog(0xcce0ff, 250, 1000)
+        }
+
+        export function OrbitControls(camera: THREE.PerspectiveCamera, renderer: THREE.WebGLRenderer)
+            : THREE.OrbitControls {
+            const orbitControls = new THREE.OrbitControls(camera, renderer.domElement)
+            orbitControls.enableDamping = true
+            orbitControls.dampingFactor = 0.20
+            orbitControls.enableZoom = true
+            orbitControls.autoRotate = false
+            orbitControls.minDistance  = 20
+            orbitControls.maxDistance  = 600
+            orbitControls.enablePan = true
+            orbitControls.target = new THREE.Vector3(0, 15, 0)
+            return orbitControls
+        }
+
+        export function GridHelper(): THREE.GridHelper {
+            return new THREE.GridHelper(
+                1000,
+                100,
+                0xF0F0FF,
+                0xF0F8FF
+            )
+        }
+
+        export function AxesHelper(): THREE.AxesHelper {
+            return new THREE.AxesHelper(50)
+        }
+
+        /**
+         * Preview of the ground a new flower would take, see picking.showGhost()
+         */
+        export function Ghost(): THREE.Mesh {
+            const ghost = new THREE.Mesh(
+                new THREE.PlaneBufferGeometry(2, 2),
+                new THREE.MeshBasicMaterial({
+                    color: 0x00ff00,
+                    transparent: true,
+                    opacity: 0.35,
+                    depthWrite: false,
+                    side: THREE.DoubleSide
+                })
+            )
+            ghost.rotation.x = -Math.PI / 2
+            ghost.visible = false
+            return ghost
+        }
+    }
+
+    /**
+     * Lights of the scene, set up by rigs
+     */
+    namespace lighting {
+        /**
+         * Lights of a time of day or weather
+         */
+        export interface Rig {
+            /**
+             * Color of the background and fog, and of the sky at the horizon
+             */
+            background: number
+            /**
+             * Color of the sky overhead
+             */
+            sky: number
+            ambient: {color: number, intensity: number}
+            hemisphere: {skyColor: number, groundColor: number, intensity: number}
+            /**
+             * The directional light, whose [x, y, z] position tells where it comes from, towards the center of the land
+             */
+            sun: {color: number, intensity: number, position: number[]}
+            /**
+             * Whether the sun casts shadows
+             */
+            shadows: boolean
+        }
+
+        const rigs: {[name: string]: Rig} = {
+            day: {
+                background: 0xcce0ff,
+                sky: 0x5b8fd6,
+                ambient: {color: 0x404040, intensity: 0.2},
+                hemisphere: {skyColor: 0xcce0ff, groundColor: 0x556b2f, intensity: 0.4},
+                sun: {color: 0xdfebff, intensity: 1, position: [0, 100, 100]},
+                shadows: true
+            },
+            goldenHour: {
+                background: 0xf5c98b,
+                sky: 0x6a7fb0,
+                ambient: {color: 0x402a20, intensity: 0.2},
+                hemisphere: {skyColor: 0xffd8a8, groundColor: 0x5b4a2f, intensity: 0.35},
+                sun: {color: 0xffb46b, intensity: 0.9, position: [-100, 25, 40]},
+                shadows: true
+            },
+            overcast: {
+                background: 0xb8bec4,
+                sky: 0x9aa3ab,
+                ambient: {color: 0x606060, intensity: 0.3},
+                hemisphere: {skyColor: 0xdde3e8, groundColor: 0x4f5a45, intensity: 0.8},
+                sun: {color: 0xe0e4e8, intensity: 0.2, position: [20, 100, 40]},
+                shadows: false
+            },
+            night: {
+                background: 0x0b1026,
+                sky: 0x02040d,
+                ambient: {color: 0x101830, intensity: 0.3},
+                hemisphere: {skyColor: 0x1b2a4e, groundColor: 0x05070d, intensity: 0.25},
+                sun: {color: 0x8899cc, intensity: 0.3, position: [60, 100, -40]},
+                shadows: true
+            }
+        }
+
+        export const defaultName = 'day'
+
+        /**
+         * Get the names of the rigs
+         * @returns {string[]} the names
+         */
+        export function names(): string[] {
+            return Object.keys(rigs)
+        }
+
+        /**
+         * Get a rig
+         * @param {string} name - name of the rig
+         * @returns {Rig} the rig
+         */
+        export function get(name: string): Rig {
+            if (!rigs.hasOwnProperty(name)) throw new error.IllegalArgumentError('Unknown lighting rig ' + name)
+            return rigs[name]
+        }
+
+        /**
+         * Blend two rigs
+         * @param {Rig} from - the first rig
+         * @param {Rig} to - the second rig
+         * @param {number} amount - how much of the second rig, in [0, 1]
+         * @returns {Rig} the blend
+         */
+        export function mix(from: Rig, to: Rig, amount: number): Rig {
+            const color = (a: number, b: number): number => new THREE.Color(a).lerp(new THREE.Color(b), amount).getHex()
+            const value = (a: number, b: number): number => a + (b - a) * amount
+            return {
+                background: color(from.background, to.background),
+                sky: color(from.sky, to.sky),
+                ambient: {
+                    color: color(from.ambient.color, to.ambient.color),
+                    intensity: value(from.ambient.intensity, to.ambient.intensity)
+                },
+                hemisphere: {
+                    skyColor: color(from.hemisphere.skyColor, to.hemisphere.skyColor),
+                    groundColor: color(from.hemisphere.groundColor, to.hemisphere.groundColor),
+                    intensity: value(from.hemisphere.intensity, to.hemisphere.intensity)
+                },
+                sun: {
+                    color: color(from.sun.color, to.sun.color),
+                    intensity: value(from.sun.intensity, to.sun.intensity),
+                    position: from.sun.position.map((x, i) => value(x, to.sun.position[i]))
+                },
+                shadows: amount < 0.5 ? from.shadows : to.shadows
+            }
+        }
+
+        /**
+         * Let meshes cast and receive shadows
+         * @param {Object3D[]} objects - objects of the meshes
+         * @impure
+         */
+        export function castShadows(objects: THREE.Object3D[]): void {
+            for (const mesh of threeEx.ObjectsHelper.of(objects).meshes()) {
+                mesh.castShadow = true
+                mesh.receiveShadow = true
+            }
+        }
+
+        /**
+         * The lights of the scene, which rigs are applied to
+         */
+        export class Lights {
+            /**
+             * Distance of the sun from the center of the land, far enough for the sun to light the whole land
+             */
+            private distance = 500
+
+            private constructor(private ambient: THREE.AmbientLight,
+                                private hemisphere: THREE.HemisphereLight,
+                                private sun: THREE.DirectionalLight) {}
+
+            /**
+             * Create the lights and add them to a scene
+             * @param {Scene} scene - the scene
+             * @returns {Lights} the lights
+             */
+            static of(scene: THREE.Scene): Lights {
+                const lights = new Lights(component.AmbientLight(), component.HemisphereLight(), component.Sun())
+                scene.add(lights.ambient, lights.hemisphere, lights.sun, lights.sun.target)
+                return lights
+            }
+
+            /**
+             * Fit the shadows of the sun to the garden, as tight as they can be so they stay sharp
+             * The far background of the land is left out, without shadows
+             * @param {Object3D} land - the land
+             * @impure
+             */
+            fit(land: THREE.Object3D): void {
+                // the flowers, and the stones and horse around them
+                const reach: number = constant.flower.positionInterval.max * 2
+                const garden = new THREE.Box3(new THREE.Vector3(-reach, -Infinity, -reach),
+                    new THREE.Vector3(reach, reach, reach))
+                const sphere: THREE.Sphere = new THREE.Box3().setFromObject(land).intersect(garden)
+                    .getBoundingSphere(new THREE.Sphere())
+                const camera: THREE.OrthographicCamera = this.sun.shadow.camera
+                this.distance = sphere.radius * 2
+                this.sun.target.position.copy(sphere.center)
+                camera.left = camera.bottom = -sphere.radius
+                camera.right = camera.top = sphere.radius
+                camera.near = this.distance - sphere.radius
+                camera.far = this.distance + sphere.radius
+                camera.updateProjectionMatrix()
+            }
+
+            /**
+             * Set the lights, background and fog as a rig tells
+             * @param {Rig} rig - the rig
+             * @param {WebGLRenderer} renderer - renderer
+             * @param {Scene} scene - scene
+             * @impure
+             */
+            apply(rig: Rig, renderer: THREE.WebGLRenderer, scene: THREE.Scene): void {
+                renderer.setClearColor(rig.background, 1.0)
+                if (scene.fog instanceof THREE.Fog) scene.fog.color.setHex(rig.background)
+                this.ambient.color.setHex(rig.ambient.color)
+                this.ambient.intensity = rig.ambient.intensity
+                this.hemisphere.color.setHex(rig.hemisphere.skyColor)
+                this.hemisphere.groundColor.setHex(rig.hemisphere.groundColor)
+                this.hemisphere.intensity = rig.hemisphere.intensity
+                this.sun.color.setHex(rig.sun.color)
+                this.sun.intensity = rig.sun.intensity
+                this.sun.position.fromArray(rig.sun.position).normalize()
+                    .multiplyScalar(this.distance).add(this.sun.target.position)
+                this.sun.castShadow = rig.shadows
+            }
+        }
+    }
+
+    /**
+     * Sky, and the course of the sun through the day
+     */
+    namespace sky {
+        /**
+         * Rigs the light goes through during the day, by hour
+         */
+        const keyframes: {hour: number, rig: string}[] = [
+            {hour: 0, rig: 'night'},
+            {hour: 5, rig: 'night'},
+            {hour: 7, rig: 'goldenHour'},
+            {hour: 9, rig: 'day'},
+            {hour: 15, rig: 'day'},
+            {hour: 17, rig: 'goldenHour'},
+            {hour: 19, rig: 'night'},
+            {hour: 24, rig: 'night'}
+        ]
+
+        const vertexShader: string = [
+            'varying vec3 vDirection;',
+            'void main() {',
+            '    vDirection = position;',
+            '    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);',
+            '}'
+        ].join('\n')
+
+        const fragmentShader: string = [
+            'uniform vec3 zenithColor;',
+            'uniform vec3 horizonColor;',
+            'uniform vec3 sunColor;',
+            'uniform vec3 sunDirection;',
+            'varying vec3 vDirection;',
+            'void main() {',
+            '    vec3 direction = normalize(vDirection);',
+            '    vec3 color = mix(horizonColor, zenithColor, sqrt(max(direction.y, 0.0)));',
+            '    float glow = pow(max(dot(direction, sunDirection), 0.0), 64.0);',
+            '    gl_FragColor = vec4(color + sunColor * glow, 1.0);',
+            '}'
+        ].join('\n')
+
+        /**
+         * Smooth step from 0 to 1 as x goes from a to b
+         * @param {number} a - start
+         * @param {number} b - end
+         * @param {number} x - the value
+         * @returns {number} the step
+         */
+        function smoothstep(a: number, b: number, x: number): number {
+            const t: number = Math.max(0, Math.min(1, (x - a) / (b - a)))
+            return t * t * (3 - 2 * t)
+        }
+
+        /**
+         * Get where the sun is, rising in the east (+x) at 6 and setting in the west at 18, below the horizon at night
+         * @param {number} hour - time of day, in [0, 24)
+         * @returns {Vector3} direction of the sun, from the center of the land
+         */
+        export function sunDirectionAt(hour: number): THREE.Vector3 {
+            const angle: number = (hour - 6) / 24 * 2 * Math.PI
+            // the sun passes south of the zenith
+            return new THREE.Vector3(Math.cos(angle), Math.sin(angle), 0.4).normalize()
+        }
+
+        /**
+         * Get how open petals are, closing in the evening and opening in the morning
+         * @param {number} hour - time of day, in [0, 24)
+         * @returns {number} openness in [0, 1], 0 for closed
+         */
+        export function petalOpennessAt(hour: number): number {
+            return smoothstep(5, 8, hour) * (1 - smoothstep(16, 19, hour))
+        }
+
+        /**
+         * Get the lights of a time of day, lit by the sun in the day and by the moon, opposite the sun, at night
+         * @param {number} hour - time of day, in [0, 24)
+         * @returns {Rig} the rig
+         */
+        export function rigAt(hour: number): lighting.Rig {
+            let index = 0
+            while (index < keyframes.length - 2 && keyframes[index + 1].hour <= hour) index++
+            const from: {hour: number, rig: string} = keyframes[index]
+            const to: {hour: number, rig: string} = keyframes[index + 1]
+            const rig: lighting.Rig = lighting.mix(lighting.get(from.rig), lighting.get(to.rig),
+                (hour - from.hour) / (to.hour - from.hour))
+            const sun: THREE.Vector3 = sunDirectionAt(hour)
+            const light: THREE.Vector3 = sun.y >= 0 ? sun : sun.clone().negate()
+            rig.sun.position = light.toArray()
+            // fade out while the sun or moon crosses the horizon, where they swap
+            rig.sun.intensity *= Math.min(1, Math.abs(sun.y) / 0.15)
+            return rig
+        }
+
+        /**
+         * Uniforms of the shaders of the dome
+         */
+        interface DomeUniforms {
+            zenithColor: {value: THREE.Color}
+            horizonColor: {value: THREE.Color}
+            sunColor: {value: THREE.Color}
+            sunDirection: {value: THREE.Vector3}
+        }
+
+        /**
+         * A dome around the scene, fading from the horizon color of rigs to their sky color overhead, with a glow
+         * where the light comes from
+         */
+        export class Dome {
+            private constructor(readonly mesh: THREE.Mesh, private uniforms: DomeUniforms) {}
+
+            /**
+             * Create the dome and add it to a scene
+             * @param {Scene} scene - the scene
+             * @returns {Dome} the dome
+             */
+            static of(scene: THREE.Scene): Dome {
+                // the material keeps the uniforms as they are given, so that they can be changed later
+                const uniforms: DomeUniforms = {
+                    zenithColor: {value: new THREE.Color()},
+                    horizonColor: {value: new THREE.Color()},
+                    sunColor: {value: new THREE.Color()},
+                    sunDirection: {value: new THREE.Vector3(0, 1, 0)}
+                }
+                const material = new THREE.ShaderMaterial({
+                    uniforms: uniforms,
+                    vertexShader: vertexShader,
+                    fragmentShader: fragmentShader,
+                    side: THREE.BackSide,
+                    depthWrite: false
+                })
+                // inside the far plane of the camera, wherever the camera is let go
+                const dome = new Dome(new THREE.Mesh(new THREE.SphereBufferGeometry(2000, 32, 16), material), uniforms)
+                scene.add(dome.mesh)
+                return dome
+            }
+
+            /**
+             * Color the dome as a rig tells
+             * @param {Rig} rig - the rig
+             * @impure
+             */
+            apply(rig: lighting.Rig): void {
+                this.uniforms.zenithColor.value.setHex(rig.sky)
+                this.uniforms.horizonColor.value.setHex(rig.background)
+                this.uniforms.sunColor.value.setHex(rig.sun.color).multiplyScalar(rig.sun.intensity)
+                this.uniforms.sunDirection.value.fromArray(rig.sun.position).normalize()
+            }
+        }
+
+        /**
+         * Time of day, which can go on by itself
+         */
+        export class DayClock {
+            private static hour = 12
+            /**
+             * Seconds a whole day lasts while the clock runs
+             */
+            private static dayLength = 120
+            private static running = false
+
+            static getHour(): number {
+                return this.hour
+            }
+
+            static setHour(hour: number): void {
+                if (!(hour >= 0 && hour <= 24)) throw new error.IllegalArgumentError('Invalid hour')
+                this.hour = hour % 24
+            }
+
+            static start(dayLength: number): void {
+                if (!(dayLength > 0)) throw new error.IllegalArgumentError('Invalid day length')
+                this.dayLength = dayLength
+                this.running = true
+            }
+
+            static stop(): void {
+                this.running = false
+            }
+
+            static isRunning(): boolean {
+                return this.running
+            }
+
+            /**
+             * Let the time go on, if the clock runs
+             * @param {number} seconds - elapsed time
+             * @impure
+             */
+            static advance(seconds: number): void {
+                if (this.running) this.hour = (this.hour + seconds / this.dayLength * 24) % 24
+            }
+        }
+    }
+
+    /**
+     * The loading overlay of flowers.html, showing the progress while the app starts and errors at any time
+     */
+    namespace loadingScreen {
+        /**
+         * Whether the app is still starting
+         */
+        let starting = true
+
+        /**
+         * Whether the overlay has been closed, until another error comes
+         */
+        let dismissed = false
+
+        /**
+         * Number of errors shown so far
+         */
+        let errorCount = 0
+
+        /**
+         * Show the loading progress on the overlay from now on
+         * @impure
+         */
+        export function attach(): void {
+            const overlay: HTMLElement | null = dom.loadingOverlay()
+            if (overlay === null) return
+            const close: HTMLElement | null = overlay.querySelector('.loading-close')
+            if (close !== null) close.addEventListener('click', () => {
+                dismissed = true
+                overlay.style.display = 'none'
+            })
+            objectLoading.LoadingProgress.subscribe(state => show(overlay, state))
+            show(overlay, objectLoading.LoadingProgress.state())
+        }
+
+        /**
+         * Show an error which stopped an action of the user, e.g. planting a flower
+         * @param {Error} reason - the error
+         * @impure
+         */
+        export function report(reason: Error): void {
+            console.error(reason)
+            objectLoading.LoadingProgress.report('Something went wrong: ' + reason.message)
+        }
+
+        /**
+         * Hide the progress once the app has started, the errors staying
+         * @impure
+         */
+        export function finish(): void {
+            starting = false
+            const overlay: HTMLElement | null = dom.loadingOverlay()
+            if (overlay !== null) show(overlay, objectLoading.LoadingProgress.state())
+        }
+
+        /**
+         * @impure
+         */
+        function show(overlay: HTMLElement, state: objectLoading.ProgressState): void {
+            overlay.className = starting ? 'starting' : 'started'
+            if (state.errors.length > errorCount) dismissed = false
+            errorCount = state.errors.length
+            if (!dismissed && (starting || state.errors.length > 0)) overlay.style.display = ''
+            else overlay.style.display = 'none'
+            const fill: HTMLElement | null = overlay.querySelector('.loading-bar-fill')
+            if (fill !== null) fill.style.width = Math.round(state.fraction * 100) + '%'
+            const text: HTMLElement | null = overlay.querySelector('.loading-text')
+            if (text !== null) text.textContent = 'Loading ' + state.settled + ' / ' + state.total + ' assets'
+            const errors: HTMLElement | null = overlay.querySelector('.loading-errors')
+            if (errors !== null && errors.children.length !== state.errors.length) {
+                errors.innerHTML = ''
+                for (const message of state.errors) {
+                    const item: HTMLElement = document.createElement('li')
+                    item.textContent = message
+                    errors.appendChild(item)
+                }
+            }
+        }
+    }
+
+    /**
+     * Pointer picking utils
+     */
+    namespace picking {
+        const raycaster = new THREE.Raycaster()
+
+        /**
+         * Find the point of an object under a position on the canvas
+         * @param {number} clientX - x of the position in the viewport
+         * @param {number} clientY - y of the position in the viewport
+         * @param {HTMLElement} element - the canvas
+         * @param {Camera} camera - camera
+         * @param {Object3D} object - the object, e.g. the land
+         * @returns {Vector3 | null} the point, or null if the object isn't there
+         */
+        export function pointOn(clientX: number, clientY: number, element: HTMLElement,
+                                camera: THREE.Camera, object: THREE.Object3D): THREE.Vector3 | null {
+            const rect: ClientRect = element.getBoundingClientRect()
+            const coords = new THREE.Vector2(
+                (clientX - rect.left) / rect.width * 2 - 1,
+                -(clientY - rect.top) / rect.height * 2 + 1
+            )
+            raycaster.setFromCamera(coords, camera)
+            const intersections: THREE.Intersection[] = raycaster.intersectObject(object, true)
+            return intersections.length > 0 ? intersections[0].point : null
+        }
+
+        /**
+         * Show the ghost at a point
+         * @param {Mesh} ghost - the ghost, see component.Ghost()
+         * @param {Vector3} point - the point
+         * @param {number} footprint - footprint of the flower, see species.Species.footprint
+         * @param {boolean} valid - whether a flower can be planted there
+         * @impure
+         */
+        export function showGhost(ghost: THREE.Mesh, point: THREE.Vector3, footprint: number, valid: boolean): void {
+            const material = <THREE.MeshBasicMaterial>ghost.material
+            material.color.setHex(valid ? 0x00ff00 : 0xff0000)
+            ghost.position.set(point.x, point.y + 0.2, point.z)
+            ghost.scale.set(footprint, footprint, 1)
+            ghost.visible = true
+        }
+
+        /**
+         * Hide the ghost
+         * @param {Mesh} ghost - the ghost, see component.Ghost()
+         * @impure
+         */
+        export function hideGhost(ghost: THREE.Mesh): void {
+            ghost.visible = false
+        }
+
+        /**
+         * Listen to clicks and taps on an element, ignoring the ones ending a drag of the camera
+         * @param {HTMLElement} element - the element
+         * @param {(clientX: number, clientY: number, shiftKey: boolean) => void} listener -
+         *     called with the position in the viewport, and whether shift was held
+         * @impure
+         */
+        export function onTap(element: HTMLElement,
+                              listener: (clientX: number, clientY: number, shiftKey: boolean) => void): void {
+            const tolerance = 5
+            let start: number[] | null = null
+            const down = (x: number, y: number) => {
+                start = [x, y]
+            }
+            const up = (x: number, y: number, shiftKey: boolean) => {
+                if (start !== null && Math.abs(x - start[0]) <= tolerance && Math.abs(y - start[1]) <= tolerance) {
+                    listener(x, y, shiftKey)
+                }
+                start = null
+            }
+            element.addEventListener('mousedown', (event: MouseEvent) => {
+                if (event.button === 0) down(event.clientX, event.clientY)
+            })
+            element.addEventListener('mouseup', (event: MouseEvent) => {
+                if (event.button === 0) up(event.clientX, event.clientY, event.shiftKey)
+            })
+            element.addEventListener('touchstart', (event: TouchEvent) => {
+                if (event.touches.length === 1) down(event.touches[0].clientX, event.touches[0].clientY)
+                else start = null
+            })
+            element.addEventListener('touchend', (event: TouchEvent) => {
+                if (event.changedTouches.length === 1) {
+                    up(event.changedTouches[0].clientX, event.changedTouches[0].clientY, event.shiftKey)
+                    // don't let the browser emulate mouse events for the tap
+                    event.preventDefault()
+                }
+            })
+        }
+
+        /**
+         * Listen to the pointer hovering an element
+         * @param {HTMLElement} element - the element
+         * @param {(clientX: number, clientY: number) => void} onMove - called with the position in the viewport
+         * @param {() => void} onLeave - called when the pointer leaves the element
+         * @impure
+         */
+        export function onHover(element: HTMLElement, onMove: (clientX: number, clientY: number) => void,
+                                onLeave: () => void): void {
+            element.addEventListener('mousemove', (event: MouseEvent) => onMove(event.clientX, event.clientY))
+            element.addEventListener('mouseleave', () => onLeave())
+        }
+    }
+
+    /**
+     * Stem generating utils
+     */
+    namespace stemShaping {
+        /**
+         * Number of points the splines pass through
+         */
+        const knots = 6
+
+        /**
+         * Number of rings of vertices along a stem, but the first
+         */
+        const rings = 32
+
+        /**
+         * Number of vertices around a stem, but the last, which closes the ring with uvs of its own
+         */
+        const sides = 8
+
+        /**
+         * Tell the spline of a stem
+         * @param {StemShape} shape - shape of the stem
+         * @returns {CatmullRomCurve3} the spline, from the root at the origin to the top once grown
+         */
+        export function curveOf(shape: model.StemShape): THREE.CatmullRomCurve3 {
+            const points: THREE.Vector3[] = util.range(knots).map(knot => {
+                // along an arc, turning from the lean at the root by the curvature
+                const s: number = knot / (knots - 1)
+                const angle: number = shape.lean + shape.curvature * s
+                const outwards: number = shape.curvature === 0 ? shape.length * s * Math.sin(shape.lean)
+                    : shape.length * (Math.cos(shape.lean) - Math.cos(angle)) / shape.curvature
+                const upwards: number = shape.curvature === 0 ? shape.length * s * Math.cos(shape.lean)
+                    : shape.length * (Math.sin(angle) - Math.sin(shape.lean)) / shape.curvature
+                return new THREE.Vector3(
+                    outwards * Math.cos(shape.direction), upwards, outwards * Math.sin(shape.direction))
+            })
+            return new THREE.CatmullRomCurve3(points)
+        }
+
+        /**
+         * Generate the mesh of a stem, which is empty until it grows, see grow()
+         * @returns {Mesh} the mesh, with a material of its own
+         */
+        export function meshOf(): THREE.Mesh {
+            const vertices: number = (rings + 1) * (sides + 1)
+            const indices: number[] = []
+            for (let ring = 0; ring < rings; ring++) {
+                for (let side = 0; side < sides; side++) {
+                    const corner: number = ring * (sides + 1) + side
+                    const next: number = corner + sides + 1
+                    // facing outwards
+                    indices.push(corner, corner + 1, next, corner + 1, next + 1, next)
+                }
+            }
+            const geometry = new THREE.BufferGeometry()
+            ;['position', 'normal'].forEach(name => {
+                const attribute = new THREE.Float32BufferAttribute(new Float32Array(vertices * 3), 3)
+                attribute.setDynamic(true)
+                geometry.addAttribute(name, attribute)
+            })
+            const uv = new THREE.Float32BufferAttribute(new Float32Array(vertices * 2), 2)
+            uv.setDynamic(true)
+            geometry.addAttribute('uv', uv)
+            geometry.setIndex(indices)
+            return new THREE.Mesh(geometry, new THREE.MeshLambertMaterial({color: 0x55aa33}))
+        }
+
+        /**
+         * Shape the meshes of a stem as a tube along the part of its spline grown so far,
+         * the texture staying in place as the top extends
+         * @param {Object3D} stem - the stem
+         * @param {StemShape} shape - shape of the stem
+         * @param {number} growth - part of the spline grown, in [0, 1]
+         * @param {number} radius - radius of the tube
+         * @impure
+         */
+        export function grow(stem: THREE.Object3D, shape: model.StemShape, growth: number, radius: number): void {
+            const curve: THREE.CatmullRomCurve3 = curveOf(shape)
+            // the spline stays in the vertical plane it leans in, across which the tube keeps its orientation
+            const across = new THREE.Vector3(-Math.sin(shape.direction), 0, Math.cos(shape.direction))
+            for (const mesh of threeEx.ObjectsHelper.of([stem]).meshes()) {
+                // stems are never shared, and stay as they are once grown
+                if (mesh.userData.growth === growth && mesh.userData.radius === radius) continue
+                mesh.userData = {growth: growth, radius: radius}
+                const geometry = <THREE.BufferGeometry>mesh.geometry
+                const position = <THREE.BufferAttribute>geometry.getAttribute('position')
+                const normal = <THREE.BufferAttribute>geometry.getAttribute('normal')
+                const uv = <THREE.BufferAttribute>geometry.getAttribute('uv')
+                const outwards = new THREE.Vector3()
+                const direction = new THREE.Vector3()
+                for (let ring = 0; ring <= rings; ring++) {
+                    const t: number = growth * ring / rings
+                    const point: THREE.Vector3 = curve.getPoint(t)
+                    outwards.crossVectors(across, curve.getTangent(t)).normalize()
+                    for (let side = 0; side <= sides; side++) {
+                        const index: number = ring * (sides + 1) + side
+                        const angle: number = Math.PI * 2 * side / sides
+                        direction.copy(outwards).multiplyScalar(Math.cos(angle)).addScaledVector(across, Math.sin(angle))
+                        position.setXYZ(index,
+                            point.x + direction.x * radius, point.y + direction.y * radius, point.z + direction.z * radius)
+                        normal.setXYZ(index, direction.x, direction.y, direction.z)
+                        uv.setXY(index, side / sides, t)
+                    }
+                }
+                position.needsUpdate = true
+                normal.needsUpdate = true
+                uv.needsUpdate = true
+                geometry.computeBoundingSphere()
+            }
+        }
+    }
+
+    /**
+     * Petal generating utils
+     */
+    namespace petalShaping {
+        /**
+         * Key telling apart the meshes of different shapes, see objectLoading.AssetManager.generate()
+         * @param {PetalShape} shape - shape of the petals
+         * @returns {string} the key
+         */
+        export function keyOf(shape: model.PetalShape): string {
+            return 'petal ' + JSON.stringify(shape)
+        }
+
+        /**
+         * Generate the mesh of a petal, colored from the base to the tip
+         * @param {PetalShape} shape - shape of the petal
+         * @returns {Mesh} the mesh, with a material of its own
+         */
+        export function meshOf(shape: model.PetalShape): THREE.Mesh {
+            return new THREE.Mesh(geometryOf(shape), new THREE.MeshLambertMaterial({
+                side: THREE.DoubleSide,
+                vertexColors: THREE.VertexColors
+            }))
+        }
+
+        /**
+         * Generate the geometry of a petal, a grid bent along its midrib
+         * @param {PetalShape} shape - shape of the petal
+         * @returns {BufferGeometry} the geometry, with positions, normals, uvs laid out like the ones of the models,
+         * and colors
+         */
+        export function geometryOf(shape: model.PetalShape): THREE.BufferGeometry {
+            const rows: number = 4 * Math.pow(2, shape.subdivision)
+            const columns: number = 2 * Math.pow(2, shape.subdivision)
+            // sin(PI * t ^ exponent) is highest where t is the widest point
+            const exponent: number = Math.log(0.5) / Math.log(shape.widest)
+            const baseColor = new THREE.Color(shape.baseColor)
+            const tipColor = new THREE.Color(shape.tipColor)
+            const positions: number[] = []
+            const uvs: number[] = []
+            const colors: number[] = []
+            for (let row = 0; row <= rows; row++) {
+                const t: number = row / rows
+                const halfWidth: number = shape.width * Math.sin(Math.PI * Math.pow(t, exponent))
+                // the midrib is an arc, turning by the curl from the base to the tip
+                const angle: number = shape.curl * t
+                const midribY: number = shape.curl === 0 ? 0 : shape.length * (1 - Math.cos(angle)) / shape.curl
+                const midribZ: number = shape.curl === 0 ? -shape.length * t : -shape.length * Math.sin(angle) / shape.curl
+                const waves: number = Math.sin(Math.PI * 2 * shape.ruffleWaves * t)
+                const color: THREE.Color = baseColor.clone().lerp(tipColor, t)
+                for (let column = 0; column <= columns; column++) {
+                    const s: number = column / columns * 2 - 1
+                    // raised off the midrib, along its normal
+                    const height: number = halfWidth * (shape.cupping * s * s + shape.ruffle * Math.pow(Math.abs(s), 3) * waves)
+                    positions.push(s * halfWidth, midribY + height * Math.cos(angle), midribZ + height * Math.sin(angle))
+                    uvs.push((s + 1) / 2, t)
+                    colors.push(color.r, color.g, color.b)
+                }
+            }
+            const indices: number[] = []
+            for (let row = 0; row < rows; row++) {
+                for (let column = 0; column < columns; column++) {
+                    const corner: number = row * (columns + 1) + column
+                    const next: number = corner + columns + 1
+                    // facing +y
+                    indices.push(corner, corner + 1, next, corner + 1, next + 1, next)
+                }
+            }
+            const geometry = new THREE.BufferGeometry()
+            geometry.addAttribute('position', new THREE.Float32BufferAttribute(positions, 3))
+            geometry.addAttribute('uv', new THREE.Float32BufferAttribute(uvs, 2))
+            geometry.addAttribute('color', new THREE.Float32BufferAttribute(colors, 3))
+            geometry.setIndex(indices)
+            geometry.computeVertexNormals()
+            return geometry
+        }
+    }
+
+    /**
+     * Flower part arranging utils, placing petals, stamens and leaves by rules
+     */
+    namespace arranging {
+        /**
+         * Angle in radians between successive parts of a spiral, which keeps them from hiding each other
+         */
+        const goldenAngle: number = Math.PI * (3 - Math.sqrt(5))
+
+        /**
+         * Place of a petal in the flower head
+         */
+        export interface PetalPlacement {
+            /**
+             * Angle in radians around the axis of the flower head
+             */
+            azimuth: number
+            /**
+             * Index of the whorl of the petal, 0 for the outermost one
+             */
+            whorl: number
+        }
+
+        /**
+         * Place of a stamen on its disc
+         */
+        export interface StamenPlacement {
+            /**
+             * [x, y, z] position, before rising with the torus
+             */
+            position: THREE.Vector3
+            /**
+             * Distance from the center of the disc, in [0, 1] of its radius
+             */
+            distance: number
+        }
+
+        /**
+         * Place of a leaf along the stem
+         */
+        export interface LeafPlacement {
+            /**
+             * Height of the node of the leaf, in [0, 1] from the root to the top of the stem
+             */
+            height: number
+            /**
+             * Angle in radians around the stem
+             */
+            azimuth: number
+        }
+
+        /**
+         * Arrange petals in whorls, spread evenly in each whorl, each whorl turned by the golden angle from the one
+         * around it, the outer whorls getting the petals left over
+         * @param {number} count - number of petals
+         * @param {number} whorls - number of whorls
+         * @returns {PetalPlacement[]} the place of each petal, outer whorls first
+         */
+        export function petals(count: number, whorls: number): PetalPlacement[] {
+            const placements: PetalPlacement[] = []
+            for (let whorl = 0; whorl < whorls; whorl++) {
+                const size: number = Math.floor(count / whorls) + (whorl < count % whorls ? 1 : 0)
+                for (let i = 0; i < size; i++) {
+                    placements.push({azimuth: Math.PI * 2 * i / size + goldenAngle * whorl, whorl: whorl})
+                }
+            }
+            return placements
+        }
+
+        /**
+         * Spread stamens evenly over their disc, along a spiral turning by the golden angle
+         * @param {StamenDefinition} definition - stamens of the species
+         * @param {number} count - number of stamens
+         * @returns {StamenPlacement[]} the place of each stamen, from the center outwards
+         */
+        export function stamens(definition: species.StamenDefinition, count: number): StamenPlacement[] {
+            const center: number[] = definition.center
+            return util.range(count).map(i => {
+                // as many stamens on every part of the disc, with the distance growing as the square root
+                const distance: number = Math.sqrt((i + 0.5) / count)
+                const angle: number = goldenAngle * i
+                const along: number = definition.radius * distance * Math.cos(angle)
+                const across: number = definition.radius * distance * Math.sin(angle)
+                return {
+                    position: new THREE.Vector3(
+                        center[0] + along,
+                        center[1] + across * Math.sin(definition.tilt),
+                        center[2] - across * Math.cos(definition.tilt)
+                    ),
+                    distance: distance
+                }
+            })
+        }
+
+        /**
+         * Arrange leaves at the nodes of the stem
+         * @param {LeafDefinition} definition - leaves of the species
+         * @returns {LeafPlacement[]} the place of each leaf, from the root upwards
+         */
+        export function leaves(definition: species.LeafDefinition): LeafPlacement[] {
+            const perNode: number = species.leavesPerNode(definition)
+            let divergence: number
+            switch (definition.phyllotaxis) {
+                case 'alternate':
+                    divergence = goldenAngle
+                    break
+                case 'opposite':
+                    divergence = Math.PI / 2
+                    break
+                default:
+                    divergence = Math.PI / perNode
+            }
+            const placements: LeafPlacement[] = []
+            species.leafNodesOf(definition).forEach((height, node) => {
+                for (let i = 0; i < perNode; i++) {
+                    placements.push({height: height, azimuth: divergence * node + Math.PI * 2 * i / perNode})
+                }
+            })
+            return placements
+        }
+    }
+
+    /**
+     * THREE.js object loading utils
+     */
+    namespace objectLoading {
+
+        /**
+         * Url of the land model
+         */
+        const landModelUrl = 'models/land.obj'
+
+        /**
+         * Url of the land texture
+         */
+        const landTextureUrl = 'models/land.jpg'
+
+        /**
+         * Number of stems generated so far, telling their meshes apart
+         */
+        let generatedStems = 0
+
+        /**
+         * Loading state of all the assets expected or requested so far
+         */
+        export interface ProgressState {
+            /**
+             * Number of assets loaded or given up on
+             */
+            settled: number
+            /**
+             * Number of assets expected or requested
+             */
+            total: number
+            /**
+             * Overall progress in [0, 1]
+             */
+            fraction: number
+            /**
+             * Why each asset given up on is missing
+             */
+            errors: string[]
+        }
+
+        /**
+         * Aggregates the progress of every asset being loaded
+         */
+        export class LoadingProgress {
+            /**
+             * Progress in [0, 1] of each expected or requested asset, by url
+             */
+            private static assets: {[url: string]: number} = {}
+            private static errors: string[] = []
+            private static listeners: ((state: ProgressState) => void)[] = []
+
+            /**
+             * Count assets in the total before they are requested, so that the progress doesn't go back
+             * when they are
+             * @param {string[]} urls - urls of the assets
+             * @impure
+             */
+            static expect(urls: string[]): void {
+                urls.forEach(url => {
+                    if (this.assets[url] === undefined) this.assets[url] = 0
+                })
+                this.notify()
+            }
+
+            static start(url: string): void {
+                this.assets[url] = 0
+                this.notify()
+            }
+
+            static update(url: string, loaded: number, total: number): void {
+                if (total <= 0) return
+                // the last bytes are only done once the asset is parsed, see finish()
+                this.assets[url] = Math.min(loaded / total, 0.99)
+                this.notify()
+            }
+
+            static finish(url: string): void {
+                this.assets[url] = 1
+                this.notify()
+            }
+
+            /**
+             * Give up on an asset
+             * @param {string} url - Url of the asset
+             * @param {string} message - what the app does without the asset
+             * @impure
+             */
+            static fail(url: string, message: string): void {
+                this.assets[url] = 1
+                this.report(message)
+            }
+
+            /**
+             * Tell about an error along with the assets given up on, e.g. one of an action of the user
+             * @param {string} message - what went wrong
+             * @impure
+             */
+            static report(message: string): void {
+                if (this.errors.indexOf(message) === -1) this.errors.push(message)
+                this.notify()
+            }
+
+            static state(): ProgressState {
+                const urls: string[] = Object.keys(this.assets)
+                const done: number = urls.reduce((sum, url) => sum + this.assets[url], 0)
+                return {
+                    settled: urls.filter(url => this.assets[url] === 1).length,
+                    total: urls.length,
+                    fraction: urls.length === 0 ? 1 : done / urls.length,
+                    errors: this.errors.slice()
+                }
+            }
+
+            /**
+             * Listen to the progress
+             * @param {(state: ProgressState) => void} listener - called with the state on every change
+             * @returns {() => void} function to stop listening
+             * @impure
+             */
+            static subscribe(listener: (state: ProgressState) => void): () => void {
+                this.listeners.push(listener)
+                return () => {
+                    this.listeners = this.listeners.filter(item => item !== listener)
+                }
+            }
+
+            private static notify(): void {
+                const state: ProgressState = this.state()
+                this.listeners.forEach(listener => listener(state))
+            }
+        }
+
+        /**
+         * How a model is loaded, told by the extensions of its files
+         * - gltf: a .gltf or .glb file, with the materials it embeds
+         * - objWithMtl: an .obj file, with the materials of an .mtl file
+         * - objWithTexture: an .obj file, drawn with a texture
+         */
+        type ModelFormat = 'gltf' | 'objWithMtl' | 'objWithTexture'
+
+        /**
+         * Tell how a model is loaded
+         * @param {string} modelUrl - Url of the model
+         * @param {string} materialUrl - Url of the texture or material library of the model
+         * @returns {ModelFormat} the format
+         */
+        function formatOf(modelUrl: string, materialUrl: string): ModelFormat {
+            const extension = (url: string) => url.replace(/[?#].*$/, '').replace(/^.*\./, '').toLowerCase()
+            switch (extension(modelUrl)) {
+                case 'gltf':
+                case 'glb':
+                    return 'gltf'
+                case 'obj':
+                    return extension(materialUrl) === 'mtl' ? 'objWithMtl' : 'objWithTexture'
+                default:
+                    throw new error.IllegalArgumentError('Unsupported model ' + modelUrl)
+            }
+        }
+
+        /**
+         * A shared asset, loaded once however many times it is requested
+         */
+        interface Entry<T> {
+            /**
+             * The asset in Promise, shared by concurrent requests
+             */
+            promise: Promise<T>
+            /**
+             * Number of meshes in use relying on the asset, see AssetManager.retain()
+             */
+            references: number
+        }
+
+        /**
+         * Loads every model, texture and material once, shares them between objects,
+         * and frees them once no object in use relies on them any more
+         */
+        export class AssetManager {
+            /**
+             * Retries after a failed load, before giving up
+             */
+            private static readonly retries = 2
+            /**
+             * Milliseconds waited before the first retry, doubled before each next one
+             */
+            private static readonly retryDelay = 500
+
+            private static readonly textureLoader: THREE.TextureLoader = new THREE.TextureLoader()
+            /**
+             * Meshes of each model, by url of the model, followed by the url of the material library if any
+             */
+            private static models: {[key: string]: Entry<THREE.Mesh[] | null>} = {}
+            private static textures: {[url: string]: Promise<THREE.Texture | null>} = {}
+            private static materials: {[textureUrl: string]: Entry<THREE.MeshLambertMaterial>} = {}
+            /**
+             * Key of the model of each loaded geometry, by uuid of the geometry
+             */
+            private static modelKeys: {[uuid: string]: string} = {}
+            /**
+             * Url of the texture of each shared material, by uuid of the material
+             */
+            private static textureUrls: {[uuid: string]: string} = {}
+            /**
+             * Stand-in for the models which failed to load
+             */
+            private static placeholder: THREE.Mesh | null = null
+
+            /**
+             * Load an object, made of the meshes of a model
+             * Objects have to be retained once in use, see retain()
+             * @param {string} modelUrl - Url of the model, replaced by a placeholder if it fails to load
+             * @param {string} materialUrl - Url of the texture of an .obj model, left out if it fails to load,
+             * or of its material library (.mtl); glTF models come with their materials and ignore it
+             * @returns {Promise<Group>} the object in Promise
+             */
+            static async load(modelUrl: string, materialUrl = ''): Promise<THREE.Group> {
+                const format: ModelFormat = formatOf(modelUrl, materialUrl)
+                const key: string = format === 'objWithMtl' ? modelUrl + ' ' + materialUrl : modelUrl
+                const model: Entry<THREE.Mesh[] | null> =
+                    this.request(this.models, key, () => this.loadModel(key, format, modelUrl, materialUrl))
+                const shared: Entry<THREE.MeshLambertMaterial> | null = format !== 'objWithTexture' ? null
+                    : this.request(this.materials, materialUrl, () => this.createMaterial(materialUrl))
+                const meshes: THREE.Mesh[] | null = await model.promise
+                const material: THREE.MeshLambertMaterial | null = shared === null ? null : await shared.promise
+                // the assets may have been freed meanwhile, by the last objects relying on them
+                if ((meshes !== null && this.models[key] !== model)
+                    || (shared !== null && this.materials[materialUrl] !== shared)) {
+                    return this.load(modelUrl, materialUrl)
+                }
+                const group = new THREE.Group()
+                for (const mesh of meshes !== null ? meshes : [this.placeholderMesh()]) {
+                    const copy: THREE.Mesh = mesh.clone()
+                    if (material !== null) copy.material = material
+                    group.add(copy)
+                }
+                return group
+            }
+
+            /**
+             * Make an object of generated meshes, which are shared and freed like the models
+             * Objects have to be retained once in use, see retain()
+             * @param {string} key - key of the meshes, told apart from the urls of the models
+             * @param {() => Mesh[]} generate - how to generate the meshes, with materials of their own
+             * @param {string} textureUrl - Url of a texture to draw the meshes with instead, if any
+             * @returns {Promise<Group>} the object in Promise
+             */
+            static async generate(key: string, generate: () => THREE.Mesh[], textureUrl = ''): Promise<THREE.Group> {
+                const model: Entry<THREE.Mesh[] | null> = this.request(this.models, key, async () => {
+                    const meshes: THREE.Mesh[] = generate()
+                    meshes.forEach(mesh => this.modelKeys[mesh.geometry.uuid] = key)
+                    return meshes
+                })
+                const shared: Entry<THREE.MeshLambertMaterial> | null = textureUrl === '' ? null
+                    : this.request(this.materials, textureUrl, () => this.createMaterial(textureUrl))
+                const meshes: THREE.Mesh[] | null = await model.promise
+                const material: THREE.MeshLambertMaterial | null = shared === null ? null : await shared.promise
+                // the assets may have been freed meanwhile, by the last objects relying on them
+                if (this.models[key] !== model || (shared !== null && this.materials[textureUrl] !== shared)) {
+                    return this.generate(key, generate, textureUrl)
+                }
+                const group = new THREE.Group()
+                for (const mesh of meshes || []) {
+                    const copy: THREE.Mesh = mesh.clone()
+                    if (material !== null) copy.material = material
+                    group.add(copy)
+                }
+                return group
+            }
+
+            /**
+             * Load models and their materials ahead of the objects needing them
+             * @param {Asset[]} assets - the models, see load()
+             * @returns {Promise<void>} resolved once every asset is loaded or given up on
+             */
+            static async preload(assets: species.Asset[]): Promise<void> {
+                await Promise.all(assets.map((asset): Promise<THREE.Group | THREE.Material> => asset.modelUrl === ''
+                    ? this.request(this.materials, asset.materialUrl, () => this.createMaterial(asset.materialUrl)).promise
+                    : this.load(asset.modelUrl, asset.materialUrl)))
+            }
+
+            /**
+             * Count objects as in use, so that their assets are kept until they are disposed
+             * @param {T[]} objects - the objects, made of loaded objects or their clones
+             * @returns {T[]} the objects
+             * @impure
+             */
+            static retain<T extends THREE.Object3D>(objects: T[]): T[] {
+                this.reference(objects, 1)
+                return objects
+            }
+
+            /**
+             * Count objects as out of use, freeing the assets no object in use relies on any more
+             * @param {Object3D[]} objects - the objects, which have been retained before
+             * @impure
+             */
+            static dispose(objects: THREE.Object3D[]): void {
+                this.reference(objects, -1)
+            }
+
+            /**
+             * Dispose of the objects of the loads that succeed, e.g. once another load they were part of failed
+             * @param {Promise<Object3D | Object3D[]>[]} loads - loads of retained objects
+             * @returns {Promise<void>} resolved once every load is settled
+             * @impure
+             */
+            static async disposeLoaded(loads: Promise<THREE.Object3D | THREE.Object3D[]>[]): Promise<void> {
+                await Promise.all(loads.map(load => load.then(
+                    loaded => this.dispose(Array.isArray(loaded) ? loaded : [loaded]),
+                    () => undefined
+                )))
+            }
+
+            /**
+             * @impure
+             */
+            private static reference(objects: THREE.Object3D[], delta: number): void {
+                for (const mesh of threeEx.ObjectsHelper.of(objects).meshes()) {
+                    const modelKey: string | undefined = this.modelKeys[mesh.geometry.uuid]
+                    const model: Entry<THREE.Mesh[] | null> | undefined =
+                        modelKey === undefined ? undefined : this.models[modelKey]
+                    if (modelKey !== undefined && model !== undefined) {
+                        model.references += delta
+                        if (model.references <= 0) {
+                            delete this.models[modelKey]
+                            model.promise.then(loaded => (loaded || []).forEach(loadedMesh => {
+                                delete this.modelKeys[loadedMesh.geometry.uuid]
+                                loadedMesh.geometry.dispose()
+                                // the shared materials are freed on their own below
+                                if (this.textureUrls[(<THREE.Material>loadedMesh.material).uuid] !== undefined) return
+                                const materials: THREE.Material[] = loadedMesh.material instanceof Array
+                                    ? loadedMesh.material : [loadedMesh.material]
+                                for (const material of materials) {
+                                    const map: THREE.Texture | undefined = (<THREE.MeshStandardMaterial>material).map
+                                    if (map) map.dispose()
+                                    material.dispose()
+                                }
+                            }))
+                        }
+                    }
+                    const textureUrl: string | undefined = this.textureUrls[(<THREE.Material>mesh.material).uuid]
+                    const shared: Entry<THREE.MeshLambertMaterial> | undefined =
+                        textureUrl === undefined ? undefined : this.materials[textureUrl]
+                    if (textureUrl !== undefined && shared !== undefined) {
+                        shared.references += delta
+                        if (shared.references <= 0) {
+                            // the texture is only shared by the material
+                            delete this.materials[textureUrl]
+                            delete this.textures[textureUrl]
+                            shared.promise.then(material => {
+                                delete this.textureUrls[material.uuid]
+                                if (material.map) material.map.dispose()
+                                material.dispose()
+                            })
+                        }
+                    }
+                }
+            }
+
+            /**
+             * Get the entry of an asset, starting to load it if it is not loaded or being loaded
+             * @param {{[key: string]: Entry<T>}} entries - entries of the kind of asset
+             * @param {string} key - key of the asset
+             * @param {() => Promise<T>} load - how to load the asset
+             * @returns {Entry<T>} the entry
+             * @impure
+             */
+            private static request<T>(entries: {[key: string]: Entry<T>}, key: string, load: () => Promise<T>): Entry<T> {
+                if (entries[key] === undefined) {
+                    entries[key] = {promise: load(), references: 0}
+                }
+                return entries[key]
+            }
+
+            /**
+             * Run a load, retrying it after a while if it fails
+             * @param {string} url - Url of the asset, for reporting
+             * @param {() => Promise<T>} load - the load
+             * @returns {Promise<T | null>} the asset in Promise, or null if every try failed
+             */
+            private static async withRetries<T>(url: string, load: () => Promise<T>): Promise<T | null> {
+                for (let attempt = 0; attempt <= this.retries; attempt++) {
+                    if (attempt > 0) {
+                        const delay: number = this.retryDelay * Math.pow(2, attempt - 1)
+                        await new Promise<void>(resolve => setTimeout(resolve, delay))
+                    }
+                    try {
+                        return await load()
+                    } catch (e) {
+                        console.warn('Failed to load ' + url + (attempt < this.retries ? ', retrying' : ', giving up'))
+                    }
+                }
+                return null
+            }
+
+            /**
+             * @impure
+             */
+            private static async loadModel(key: string, format: ModelFormat,
+                                           url: string, materialUrl: string): Promise<THREE.Mesh[] | null> {
+                LoadingProgress.start(url)
+                const onProgress = (event: ProgressEvent) => {
+                    if (event.lengthComputable) LoadingProgress.update(url, event.loaded, event.total)
+                }
+                const meshes: THREE.Mesh[] | null = await this.withRetries(url, () => {
+                    switch (format) {
+                        case 'gltf':
+                            return this.loadGltf(url, onProgress)
+                        case 'objWithMtl':
+                            return this.loadMtl(materialUrl).then(materials => this.loadObj(url, onProgress, materials))
+                        default:
+                            return this.loadObj(url, onProgress)
+                    }
+                })
+                if (meshes === null) {
+                    LoadingProgress.fail(url, 'Could not load the model ' + url + ', a placeholder is shown instead')
+                    // let the next request try again
+                    delete this.models[key]
+                    return null
+                }
+                LoadingProgress.finish(url)
+                meshes.forEach(mesh => this.modelKeys[mesh.geometry.uuid] = key)
+                return meshes
+            }
+
+            private static loadObj(url: string, onProgress: (event: ProgressEvent) => void,
+                                   materials?: THREE.MaterialCreator): Promise<THREE.Mesh[]> {
+                return new Promise<THREE.Mesh[]>((resolve, reject) => {
+                    const loader = new THREE.OBJLoader()
+                    if (materials !== undefined) loader.setMaterials(materials)
+                    loader.load(url, object => {
+                        const meshes: THREE.Mesh[] = threeEx.ObjectsHelper.of([object]).meshes()
+                        if (materials !== undefined) {
+                            // the models are thin, and have to be seen from both sides like the textured ones
+                            for (const mesh of meshes) {
+                                (mesh.material instanceof Array ? mesh.material : [mesh.material])
+                                    .forEach(material => material.side = THREE.DoubleSide)
+                            }
+                        }
+                        resolve(meshes)
+                    }, onProgress, (event: ErrorEvent) => reject(event))
+                })
+            }
+
+            private static loadMtl(url: string): Promise<THREE.MaterialCreator> {
+                return new Promise<THREE.MaterialCreator>((resolve, reject) => {
+                    const loader = new THREE.MTLLoader()
+                    // textures are next to the material library
+                    loader.setTexturePath(url.substring(0, url.lastIndexOf('/') + 1))
+                    loader.load(url, materials => {
+                        materials.preload()
+                        resolve(materials)
+                    }, undefined, (event: ErrorEvent) => reject(event))
+                })
+            }
+
+            private static loadGltf(url: string, onProgress: (event: ProgressEvent) => void): Promise<THREE.Mesh[]> {
+                return new Promise<THREE.Mesh[]>((resolve, reject) => {
+                    threeEx.examples.GLTFLoader().load(url, gltf => {
+                        // meshes are taken out of their nodes, so their transforms have to include the ones of the nodes
+                        gltf.scene.updateMatrixWorld(true)
+                        const meshes: THREE.Mesh[] = threeEx.ObjectsHelper.of([gltf.scene]).meshes()
+                        for (const mesh of meshes) {
+                            mesh.matrixWorld.decompose(mesh.position, mesh.quaternion, mesh.scale)
+                        }
+                        resolve(meshes)
+                    }, onProgress, (event: ErrorEvent) => reject(event))
+                })
+            }
+
+            /**
+             * @impure
+             */
+            private static async createMaterial(textureUrl: string): Promise<THREE.MeshLambertMaterial> {
+                if (this.textures[textureUrl] === undefined) {
+                    LoadingProgress.start(textureUrl)
+                    this.textures[textureUrl] = this.withRetries(textureUrl, () => new Promise<THREE.Texture>((resolve, reject) => {
+                        this.textureLoader.load(textureUrl, resolve, undefined, reject)
+                    }))
+                }
+                const texture: THREE.Texture | null = await this.textures[textureUrl]
+                const material = new THREE.MeshLambertMaterial({side: THREE.DoubleSide})
+                if (texture !== null) {
+                    LoadingProgress.finish(textureUrl)
+                    material.map = texture
+                } else {
+                    LoadingProgress.fail(textureUrl, 'Could not load the texture ' + textureUrl + ', its models are left plain')
+                    delete this.textures[textureUrl]
+                }
+                this.textureUrls[material.uuid] = textureUrl
+                return material
+            }
+
+            private static placeholderMesh(): THREE.Mesh {
+                if (this.placeholder === null) {
+                    this.placeholder = new THREE.Mesh(
+                        new THREE.BoxBufferGeometry(10, 10, 10),
+                        new THREE.MeshLambertMaterial({color: 0xcccccc})
+                    )
+                }
+                return this.placeholder
+            }
+        }
+
+        /**
+         * Get the land and every asset of some species
+         * @param {string[]} names - names of the species
+         * @returns {Asset[]} the assets
+         */
+        function assetsOf(names: string[]): species.Asset[] {
+            const assets: species.Asset[] = [{modelUrl: landModelUrl, materialUrl: landTextureUrl}]
+            for (const name of names) {
+                species.assetsOf(species.get(name)).forEach(asset => assets.push(asset))
+            }
+            return assets
+        }
+
+        /**
+         * Count the land and every asset of some species in the loading progress, loaded or not
+         * Only the models and the textures drawn on them are counted, as AssetManager tracks them
+         * @param {string[]} names - names of the species
+         * @impure
+         */
+        export function expect(names: string[]): void {
+            const urls: string[] = []
+            for (const asset of assetsOf(names)) {
+                const tracked: string[] = asset.modelUrl === '' ? [asset.materialUrl]
+                    : formatOf(asset.modelUrl, asset.materialUrl) === 'objWithTexture'
+                        ? [asset.modelUrl, asset.materialUrl]
+                        : [asset.modelUrl]
+                tracked.filter(url => urls.indexOf(url) === -1).forEach(url => urls.push(url))
+            }
+            LoadingProgress.expect(urls)
+        }
+
+        /**
+         * Load the land and every asset of some species
+         * @param {string[]} names - names of the species
+         * @returns {Promise<void>} resolved once every asset is loaded or given up on
+         */
+        export function preload(names: string[]): Promise<void> {
+            return AssetManager.preload(assetsOf(names))
+        }
+
+        /**
+         * Load land object
+         * @returns {Promise<Group>} land object in Promise
+         */
+        export async function loadLand(): Promise<THREE.Group> {
+            const land: THREE.Group = await AssetManager.load(landModelUrl, landTextureUrl)
+            return AssetManager.retain([
+                threeEx.GroupHelper.of(land)
+                    .scale(30, 30, 30)
+                    .rotateY(-(Math.PI / 8 + Math.PI / 2))
+                    .positioning(0, 10, 0)
+                    .show()
+                    .collect()
+            ])[0]
+        }
+
+        /**
+         * Load stem object, which is shaped as it grows, see rendering.pose()
+         * @param {StemDefinition} definition - stem of the species
+         * @returns {Promise<Group>} stem object in Promise
+         */
+        export async function loadStem(definition: species.StemDefinition): Promise<THREE.Group> {
+            // every stem grows on its own, so none of them is shared
+            const stem: THREE.Group =
+                await AssetManager.generate('stem ' + generatedStems++, () => [stemShaping.meshOf()], definition.textureUrl)
+            return AssetManager.retain([
+                threeEx.GroupHelper.of(stem)
+                    .show()
+                    .collect()
+            ])[0]
+        }
+
+        /**
+         * Load torus object
+         * @param {TorusDefinition} definition - torus of the species
+         * @param {string} textureUrl - Url of the torus texture
+         * @returns {Promise<Group>} torus object in Promise
+         */
+        export async function loadTorus(definition: species.TorusDefinition, textureUrl: string): Promise<THREE.Group> {
+            const torus: THREE.Group = await AssetManager.load(definition.modelUrl, textureUrl)
+            return AssetManager.retain([
+                threeEx.GroupHelper.of(torus)
+                    .scale(definition.scale[0], definition.scale[1], definition.scale[2])
+                    .positioning(definition.position[0], definition.position[1], definition.position[2])
+                    .rotateX(definition.rotationX)
+                    .hide()
+                    .collect()
+            ])[0]
+        }
+
+        /**
+         * Load stamens object
+         * @param {StamenDefinition} definition - stamens of the species
+         * @param {string} modelUrl - Url of the stamen model
+         * @param {number} count - number of stamens
+         * @returns {Promise<Group[]>} stamens object in Promise
+         */
+        export async function loadStamens(definition: species.StamenDefinition, modelUrl: string,
+                                          count: number): Promise<THREE.Group[]> {
+            const basicGroupHelper =
+                threeEx.GroupHelper.of(await AssetManager.load(modelUrl, definition.textureUrl))
+                    .scale(definition.scale[0], definition.scale[1], definition.scale[2])
+                    .rotateX(definition.rotationX)
+                    .hide()
+            return AssetManager.retain(arranging.stamens(definition, count).map(placement =>
+                basicGroupHelper
+                    .clone()
+                    .positioning(placement.position.x, placement.position.y, placement.position.z)
+                    .collect()
+            ))
+        }
+
+        /**
+         * Load petals objects, which are arranged as they grow, see rendering.pose()
+         * @param {PetalDefinition} definition - petals of the species
+         * @param {string} modelUrl - Url of the petal model
+         * @param {string} textureUrl - Url of the petal texture
+         * @param {number} count - number of petals
+         * @param {PetalShape} shape - shape of the petals, generated in place of the model if given
+         * @returns {Promise<Group[]>} petals objects in Promise
+         */
+        export async function loadPetals(definition: species.PetalDefinition, modelUrl: string, textureUrl: string,
+                                         count: number, shape?: model.PetalShape): Promise<THREE.Group[]> {
+            const petal: THREE.Group = shape === undefined
+                ? await AssetManager.load(modelUrl, textureUrl)
+                : await AssetManager.generate(petalShaping.keyOf(shape), () => [petalShaping.meshOf(shape)])
+            const basicGroupHelper =
+                threeEx.GroupHelper.of(petal)
+                    .scale(definition.scale[0], definition.scale[1], definition.scale[2])
+                    .positioning(definition.position[0], definition.position[1], definition.position[2])
+                    .hide()
+            return AssetManager.retain(util.range(count).map(() => basicGroupHelper.clone().collect()))
+        }
+
+        /**
+         * Load leaves objects
+         * @param {LeafDefinition} definition - leaves of the species
+         * @param {number[][]} rotations - initial [x, y] rotation of each leaf, see arranging.leaves()
+         * @returns {Promise<Group[]>} leaves objects in Promise, placed along the stem as it grows, see rendering.pose()
+         */
+        export async function loadLeaves(definition: species.LeafDefinition, rotations: number[][]): Promise<THREE.Group[]> {
+            const placements: arranging.LeafPlacement[] = arranging.leaves(definition)
+            if (rotations.length !== placements.length) throw new error.IllegalArgumentError('Invalid leaf rotations')
+            const basicGroupHelper =
+                threeEx.GroupHelper.of(await AssetManager.load(definition.modelUrl, definition.textureUrl))
+                    .scale(definition.scale[0], definition.scale[1], definition.scale[2])
+                    .hide()
+            return AssetManager.retain(placements.map((placement, index) =>
+                basicGroupHelper
+                    .clone()
+                    .rotateX(rotations[index][0])
+                    .rotateY(placement.azimuth + rotations[index][1])
+                    .collect()
+            ))
+        }
+
+    }
+
+    /**
+     * Land surface sampling utils
+     */
+    namespace terrain {
+        export interface Sample {
+            /**
+             * Height of the land surface
+             */
+            height: number
+            /**
+             * Upward normal of the land surface, in world space
+             */
+            normal: THREE.Vector3
+            /**
+             * Angle between the land surface and the horizontal plane, in radians
+             */
+            slope: number
+        }
+
+        const raycaster = new THREE.Raycaster()
+
+        /**
+         * The land, null until loaded
+         */
+        let ground: THREE.Object3D | null = null
+
+        /**
+         * Set the object to sample
+         * @param {Object3D} object - the land
+         * @impure
+         */
+        export function setGround(object: THREE.Object3D): void {
+            object.updateMatrixWorld(true)
+            ground = object
+        }
+
+        /**
+         * Get the rectangle of the xz plane the land covers
+         * @returns {{xMin: number, xMax: number, zMin: number, zMax: number} | null} the rectangle, or null if the land isn't loaded yet
+         */
+        export function bounds(): {xMin: number, xMax: number, zMin: number, zMax: number} | null {
+            if (ground === null) return null
+            const box: THREE.Box3 = new THREE.Box3().setFromObject(ground)
+            return {xMin: box.min.x, xMax: box.max.x, zMin: box.min.z, zMax: box.max.z}
+        }
+
+        /**
+         * Sample the land surface right above or below a position
+         * @param {number} x - x of the position
+         * @param {number} z - z of the position
+         * @returns {Sample | null} the sample, or null if there is no land there or it isn't loaded yet
+         */
+        export function sample(x: number, z: number): Sample | null {
+            if (ground === null) return null
+            raycaster.set(new THREE.Vector3(x, 10000, z), new THREE.Vector3(0, -1, 0))
+            const intersections: THREE.Intersection[] = raycaster.intersectObject(ground, true)
+            if (intersections.length === 0) return null
+            const intersection: THREE.Intersection = intersections[0]
+            const normal: THREE.Vector3 = intersection.face
+                ? intersection.face.normal.clone().transformDirection(intersection.object.matrixWorld)
+                : new THREE.Vector3(0, 1, 0)
+            // models may have their faces the other way round
+            if (normal.y < 0) normal.negate()
+            return {
+                height: intersection.point.y,
+                normal: normal,
+                slope: Math.acos(Math.min(1, normal.y))
+            }
+        }
+
+        /**
+         * Check whether a flower can stand on the land at a position
+         * @param {number} x - x of the position
+         * @param {number} z - z of the position
+         * @returns {boolean} false if there is no land there or it is too steep, true if the land isn't loaded yet
+         */
+        export function isPlantable(x: number, z: number): boolean {
+            if (ground === null) return true
+            const result: Sample | null = sample(x, z)
+            return result !== null && result.slope <= constant.flower.maxSlope
+        }
+
+        /**
+         * Put the root of a flower on the land
+         * @param {Flower} flower - the flower
+         * @returns {Flower} the flower
+         * @impure
+         */
+        export function settle(flower: model.Flower): model.Flower {
+            const reference: THREE.Vector3 = flower.stem.position
+            const result: Sample | null = sample(reference.x, reference.z)
+            if (result !== null) flower.moveBy(0, result.height - reference.y, 0)
+            return flower
+        }
+    }
+
+    /**
+     * Areas of the land where flowers cannot be placed
+     * They are given as polygons on the xz plane, and optionally as a grayscale mask image laid over the land
+     */
+    namespace exclusion {
+        /**
+         * A grayscale image laid over a rectangle of the xz plane, dark pixels excluding the land under them
+         */
+        export class Mask {
+            private constructor(private width: number,
+                                private height: number,
+                                private luminances: number[],
+                                private bounds: {xMin: number, xMax: number, zMin: number, zMax: number},
+                                private threshold: number) {}
+            static of(imageData: ImageData, bounds: {xMin: number, xMax: number, zMin: number, zMax: number},
+                      threshold = 128): Mask {
+                if (bounds.xMax <= bounds.xMin || bounds.zMax <= bounds.zMin) {
+                    throw new error.IllegalArgumentError('Invalid bounds')
+                }
+                const luminances: number[] = []
+                for (let i = 0; i < imageData.data.length; i += 4) {
+                    const data = imageData.data
+                    luminances.push(0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2])
+                }
+                return new Mask(imageData.width, imageData.height, luminances, bounds, threshold)
+            }
+
+            /**
+             * Check whether a position is excluded, positions outside of the mask are not
+             * @param {number} x - x of the position
+             * @param {number} z - z of the position
+             * @returns {boolean} result
+             */
+            excludes(x: number, z: number): boolean {
+                const u: number = (x - this.bounds.xMin) / (this.bounds.xMax - this.bounds.xMin)
+                const v: number = (z - this.bounds.zMin) / (this.bounds.zMax - this.bounds.zMin)
+                if (u < 0 || u >= 1 || v < 0 || v >= 1) return false
+                const column: number = Math.floor(u * this.width)
+                const row: number = Math.floor(v * this.height)
+                return this.luminances[row * this.width + column] < this.threshold
+            }
+        }
+
+        /**
+         * Current polygons, which start as a copy of constant.flower.restrictedAreas
+         */
+        let polygons: number[][][] = []
+
+        /**
+         * Current polygons by the cells of land they cover
+         */
+        const index: spatial.GridIndex<number[][]> = spatial.GridIndex.of<number[][]>(50)
+
+        /**
+         * Current mask, null if none
+         */
+        let mask: Mask | null = null
+
+        /**
+         * Get the current polygons
+         * @returns {number[][][]} the polygons, which have to be given back to setPolygons() once modified in place
+         */
+        export function getPolygons(): number[][][] {
+            return polygons
+        }
+
+        /**
+         * Replace the current polygons
+         * @param {number[][][]} areas - the polygons, each one having at least 3 [x, z] vertices
+         * @impure
+         */
+        export function setPolygons(areas: number[][][]): void {
+            if (areas.some(polygon => polygon.length < 3 || polygon.some(vertex => vertex.length !== 2))) {
+                throw new error.IllegalArgumentError('Invalid polygons')
+            }
+            polygons = areas
+            index.clear()
+            for (const polygon of polygons) {
+                index.insert(polygon, spatial.boundsOf(polygon))
+            }
+        }
+
+        setPolygons(constant.flower.restrictedAreas.map(polygon => polygon.map(vertex => vertex.slice())))
+
+        /**
+         * Describe the current polygons the way constant.flower.restrictedAreas is written
+         * @returns {string} the description
+         */
+        export function describePolygons(): string {
+            return '[\n' + polygons
+                .map(polygon => '    [' + polygon.map(vertex => '[' + vertex.map(Math.round).join(', ') + ']').join(', ') + ']')
+                .join(',\n') + '\n]'
+        }
+
+        /**
+         * Replace the current mask
+         * @param {Mask | null} value - the mask, or null to remove it
+         * @impure
+         */
+        export function setMask(value: Mask | null): void {
+            mask = value
+        }
+
+        /**
+         * Load a mask from an image
+         * @param {string} url - Url of the image, a grayscale one preferably
+         * @param {{xMin: number, xMax: number, zMin: number, zMax: number}} bounds - the rectangle the image is laid over
+         * @param {number} threshold - pixels of lower luminance, in [0, 255], are excluding
+         * @returns {Promise<Mask>} the mask in Promise
+         */
+        export function loadMask(url: string, bounds: {xMin: number, xMax: number, zMin: number, zMax: number},
+                                 threshold?: number): Promise<Mask> {
+            return new Promise<Mask>((resolve, reject) => {
+                const image = new Image()
+                image.crossOrigin = 'anonymous'
+                image.onload = () => {
+                    const canvas: HTMLCanvasElement = document.createElement('canvas')
+                    canvas.width = image.width
+                    canvas.height = image.height
+                    const context: CanvasRenderingContext2D | null = canvas.getContext('2d')
+                    if (context === null) {
+                        reject(new error.IllegalStateError('Canvas is not supported'))
+                        return
+                    }
+                    context.drawImage(image, 0, 0)
+                    resolve(Mask.of(context.getImageData(0, 0, image.width, image.height), bounds, threshold))
+                }
+                image.onerror = () => reject(new error.IllegalArgumentError('Failed to load mask ' + url))
+                image.src = url
+            })
+        }
+
+        /**
+         * Check whether a position is excluded by the polygons only
+         * @param {number} x - x of the position
+         * @param {number} z - z of the position
+         * @returns {boolean} result
+         */
+        export function restricts(x: number, z: number): boolean {
+            return util.math.pointInPolygons([x, z], index.query(spatial.square(x, z, 0)))
+        }
+
+        /**
+         * Check whether a position is excluded by the mask only
+         * @param {number} x - x of the position
+         * @param {number} z - z of the position
+         * @returns {boolean} result
+         */
+        export function masks(x: number, z: number): boolean {
+            return mask !== null && mask.excludes(x, z)
+        }
+    }
+
+    /**
+     * Debugging editors
+     */
+    namespace editing {
+        /**
+         * Editor of the exclusion polygons, drawn on the land
+         * Drag a vertex to move it, shift-click the land to add a polygon, shift-click a vertex to delete its polygon
+         */
+        export class AreaEditor {
+            private readonly group: THREE.Group = new THREE.Group()
+            private readonly handleGeometry: THREE.BufferGeometry = new THREE.SphereBufferGeometry(2, 8, 6)
+            private readonly handleMaterial: THREE.Material = new THREE.MeshBasicMaterial({color: 0xffaa00, depthTest: false})
+            private readonly lineMaterial: THREE.LineBasicMaterial = new THREE.LineBasicMaterial({color: 0xff5500, depthTest: false})
+            private handles: THREE.Mesh[] = []
+            private dragged: THREE.Mesh | null = null
+
+            private constructor(private element: HTMLElement,
+                                private camera: THREE.Camera,
+                                private land: THREE.Object3D,
+                                private orbitControls: THREE.OrbitControls) {}
+            static of(scene: THREE.Scene, element: HTMLElement, camera: THREE.Camera, land: THREE.Object3D,
+                      orbitControls: THREE.OrbitControls): AreaEditor {
+                const editor = new AreaEditor(element, camera, land, orbitControls)
+                editor.group.renderOrder = 1
+                scene.add(editor.group)
+                editor.redraw()
+                editor.listen()
+                return editor
+            }
+
+            /**
+             * Find the vertex handle under a position on the canvas
+             * @param {number} clientX - x of the position in the viewport
+             * @param {number} clientY - y of the position in the viewport
+             * @returns {Mesh | null} the handle, or null if there is none
+             */
+            handleAt(clientX: number, clientY: number): THREE.Mesh | null {
+                for (const handle of this.handles) {
+                    if (picking.pointOn(clientX, clientY, this.element, this.camera, handle) !== null) return handle
+                }
+                return null
+            }
+
+            /**
+             * Position of a vertex slightly above the land
+             * @param {number[]} vertex - [x, z] of the vertex
+             * @returns {Vector3} the position
+             */
+            private static positionOf(vertex: number[]): THREE.Vector3 {
+                const sample: terrain.Sample | null = terrain.sample(vertex[0], vertex[1])
+                return new THREE.Vector3(vertex[0], (sample === null ? 0 : sample.height) + 1, vertex[1])
+            }
+
+            /**
+             * Rebuild the drawing of the polygons
+             * @impure
+             */
+            private redraw(): void {
+                for (const child of this.group.children.slice()) {
+                    this.group.remove(child)
+                    if (child instanceof THREE.Line) child.geometry.dispose()
+                }
+                this.handles = []
+                exclusion.getPolygons().forEach((polygon, polygonIndex) => {
+                    const positions: THREE.Vector3[] = polygon.map(AreaEditor.positionOf)
+                    const outline: THREE.Vector3[] = positions.concat([positions[0]]) // closed
+                    this.group.add(new THREE.Line(new THREE.BufferGeometry().setFromPoints(outline), this.lineMaterial))
+                    positions.forEach((position, vertexIndex) => {
+                        const handle = new THREE.Mesh(this.handleGeometry, this.handleMaterial)
+                        handle.position.copy(position)
+                        handle.userData = {polygon: polygonIndex, vertex: vertexIndex}
+                        this.handles.push(handle)
+                        this.group.add(handle)
+                    })
+                })
+                rendering.Scheduler.wake()
+            }
+
+            /**
+             * @impure
+             */
+            private listen(): void {
+                this.element.addEventListener('mousedown', (event: MouseEvent) => {
+                    if (event.button !== 0 || event.shiftKey) return
+                    this.dragged = this.handleAt(event.clientX, event.clientY)
+                })
+                this.element.addEventListener('mousemove', (event: MouseEvent) => {
+                    if (this.dragged !== null) {
+                        const point: THREE.Vector3 | null =
+                            picking.pointOn(event.clientX, event.clientY, this.element, this.camera, this.land)
+                        if (point !== null) {
+                            const data = this.dragged.userData
+                            const polygons: number[][][] = exclusion.getPolygons()
+                            polygons[data.polygon][data.vertex] = [point.x, point.z]
+                            exclusion.setPolygons(polygons)
+                            this.redraw()
+                            this.dragged = this.handles.filter(handle =>
+                                handle.userData.polygon === data.polygon && handle.userData.vertex === data.vertex)[0]
+                        }
+                    } else {
+                        // the camera must stay still while a vertex is dragged
+                        const hovered: boolean = this.handleAt(event.clientX, event.clientY) !== null
+                        this.orbitControls.enabled = !hovered
+                        this.element.style.cursor = hovered ? 'move' : ''
+                    }
+                })
+                this.element.addEventListener('mouseup', () => {
+                    this.dragged = null
+                })
+                picking.onTap(this.element, (clientX: number, clientY: number, shiftKey: boolean) => {
+                    if (!shiftKey) return
+                    const handle: THREE.Mesh | null = this.handleAt(clientX, clientY)
+                    const polygons: number[][][] = exclusion.getPolygons()
+                    if (handle !== null) {
+                        polygons.splice(handle.userData.polygon, 1)
+                    } else {
+                        const point: THREE.Vector3 | null =
+                            picking.pointOn(clientX, clientY, this.element, this.camera, this.land)
+                        if (point === null) return
+                        polygons.push([
+                            [point.x - 10, point.z - 10],
+                            [point.x + 10, point.z - 10],
+                            [point.x + 10, point.z + 10],
+                            [point.x - 10, point.z + 10],
+                        ])
+                    }
+                    exclusion.setPolygons(polygons)
+                    this.redraw()
+                })
+            }
+        }
+    }
+
+    /**
+     * Object generating utils
+     */
+    namespace objectGenerating {
+        /**
+         * Make every random choice for a new flower
+         * @param {Species} definition - species of the flower
+         * @param {RandomGenerator} random - source of randomness
+         * @returns {FlowerTraits} the traits
+         * @impure
+         */
+        function randomTraits(definition: species.Species, random: prng.RandomGenerator): model.FlowerTraits {
+            const shape: species.PetalShapeDefinition | undefined = definition.petal.shape
+            const count = (range: species.Range) => Math.floor(util.random(range.min, range.max + 1, random))
+            const petalCount: number = count(definition.petal.count)
+            const leaves: arranging.LeafPlacement[] = arranging.leaves(definition.leaf)
+            const pick = (range: species.Range) => util.random(range.min, range.max, random)
+            const traits: model.FlowerTraits = {
+                species: definition.name,
+                stemShape: {
+                    length: pick(definition.stem.length),
+                    lean: pick(definition.stem.lean),
+                    direction: util.random(-Math.PI, Math.PI, random),
+                    curvature: pick(definition.stem.curvature)
+                },
+                torusTextureUrl: util.randomlyPick(definition.torus.textureUrls, random),
+                stamenModelUrl: util.randomlyPick(definition.stamen.modelUrls, random),
+                petalModelUrl: shape !== undefined ? '' : util.randomlyPick(definition.petal.modelUrls, random),
+                petalTextureUrl: shape !== undefined ? '' : util.randomlyPick(definition.petal.textureUrls, random),
+                petalCount: petalCount,
+                // at least 3 petals in each whorl
+                petalWhorls: Math.max(1, Math.min(count(definition.petal.whorls), Math.floor(petalCount / 3))),
+                stamenCount: count(definition.stamen.count),
+                leafRotations: leaves.map(() => [
+                    Math.PI * util.random(-0.5, 0.5, random),
+                    Math.PI * util.random(-0.1, 0.1, random)
+                ]),
+                leavesLottery: util.boundedRandomBooleanArray(
+                    leaves.length, definition.leaf.count.min, definition.leaf.count.max, random
+                )
+            }
+            if (shape !== undefined) traits.petalShape = randomPetalShape(shape, random)
+            return traits
+        }
+
+        /**
+         * Pick the shape of the petals of a new flower
+         * @param {PetalShapeDefinition} definition - ranges of the shape
+         * @param {RandomGenerator} random - source of randomness
+         * @returns {PetalShape} the shape
+         * @impure
+         */
+        function randomPetalShape(definition: species.PetalShapeDefinition,
+                                  random: prng.RandomGenerator): model.PetalShape {
+            const pick = (range: species.Range) => util.random(range.min, range.max, random)
+            const palette: number[] = util.randomlyPick(definition.palettes, random)
+            return {
+                length: pick(definition.length),
+                width: pick(definition.width),
+                widest: pick(definition.widest),
+                curl: pick(definition.curl),
+                cupping: pick(definition.cupping),
+                ruffle: pick(definition.ruffle),
+                ruffleWaves: Math.round(pick(definition.ruffleWaves)),
+                baseColor: palette[0],
+                tipColor: palette[1],
+                subdivision: definition.subdivision
+            }
+        }
+
+        export class FlowersGenerator {
+            private static generatedFlowers: model.Flower[] = []
+
+            /**
+             * The last requested placement, see enqueue()
+             */
+            private static placements: Promise<void> = Promise.resolve()
+
+            /**
+             * Generated flowers by the cells of land their footprints cover
+             */
+            private static occupied: spatial.GridIndex<model.Flower> = spatial.GridIndex.of<model.Flower>()
+
+            static reset(): void {
+                this.generatedFlowers = []
+                this.occupied.clear()
+            }
+
+            static all(): model.Flower[] {
+                return this.generatedFlowers.slice()
+            }
+
+            /**
+             * Forget a flower, so that its place can be taken by new flowers
+             * @param {Flower} flower - the flower
+             * @returns {boolean} false if the flower is not a generated one
+             * @impure
+             */
+            static remove(flower: model.Flower): boolean {
+                const index: number = this.generatedFlowers.indexOf(flower)
+                if (index === -1) return false
+                this.generatedFlowers.splice(index, 1)
+                this.occupied.remove(flower)
+                return true
+            }
+
+            /**
+             * Keep track of a flower placed at its final position
+             * @param {Flower} flower - the flower
+             * @returns {Flower} the flower
+             * @impure
+             */
+            private static add(flower: model.Flower): model.Flower {
+                this.generatedFlowers.push(flower)
+                this.occupied.insert(flower, flower.getFootprint())
+                return flower
+            }
+
+            /**
+             * Build a flower from its traits, at the original position
+             * @param {FlowerTraits} traits - the traits
+             * @param {RandomGenerator} random - source of randomness of the flower
+             * @returns {Promise<Flower>} the flower in Promise
+             */
+            private static async build(traits: model.FlowerTraits, random: prng.RandomGenerator): Promise<model.Flower> {
+                const definition: species.Species = species.get(traits.species)
+                // load every part at once
+                const stem: Promise<THREE.Group> = objectLoading.loadStem(definition.stem)
+                const torus: Promise<THREE.Group> = objectLoading.loadTorus(definition.torus, traits.torusTextureUrl)
+                const stamens: Promise<THREE.Group[]> =
+                    objectLoading.loadStamens(definition.stamen, traits.stamenModelUrl, traits.stamenCount)
+                const petals: Promise<THREE.Group[]> = objectLoading.loadPetals(definition.petal,
+                    traits.petalModelUrl, traits.petalTextureUrl, traits.petalCount, traits.petalShape)
+                const leaves: Promise<THREE.Group[]> = objectLoading.loadLeaves(definition.leaf, traits.leafRotations)
+                const parts: Promise<THREE.Group | THREE.Group[]>[] = [stem, torus, stamens, petals, leaves]
+                try {
+                    await Promise.all(parts)
+                } catch (e) {
+                    // free the parts loaded anyway
+                    await objectLoading.AssetManager.disposeLoaded(parts)
+                    throw e
+                }
+                return model.Flower.of(await stem, await torus, await stamens, await petals, await leaves, traits, random)
+            }
+
+            /**
+             * Run a placement once the ones requested before are done, so that it sees every flower they placed
+             * @param {Promise<T>} loading - what the placement needs, loaded meanwhile
+             * @param {(loaded: T) => R} place - the placement
+             * @returns {Promise<R>} result of the placement in Promise
+             * @impure
+             */
+            private static enqueue<T, R>(loading: Promise<T>, place: (loaded: T) => R): Promise<R> {
+                const result: Promise<R> = this.placements.then(() => loading).then(place)
+                this.placements = result.then(() => undefined, () => undefined)
+                return result
+            }
+
+            /**
+             * Generate a new flower at a free position
+             * @param {string} speciesName - species of the flower
+             * @returns {Promise<Flower | null>} the flower in Promise, or null if the garden is full
+             * @impure
+             */
+            static next(speciesName = species.defaultName): Promise<model.Flower | null> {
+                // fork before any loading, so the flower only depends on its position in the sequence
+                const random: prng.RandomGenerator = prng.fork()
+                const building: Promise<model.Flower> = this.build(randomTraits(species.get(speciesName), random), random)
+                return this.enqueue(building, flower => {
+                    if (this.generatedFlowers.length === 0) {
+                        return this.add(terrain.settle(flower)) // initial flower should be at the original position
+                    }
+                    const moved: model.Flower | null = flower.moveRandomly((x, z) => this.isFree(x, z, speciesName))
+                    if (moved === null) {
+                        objectLoading.AssetManager.dispose(flower.all())
+                        return null
+                    }
+                    return this.add(terrain.settle(moved))
+                })
+            }
+
+            /**
+             * Generate a new flower at a given position
+             * @param {number} x - x of the position
+             * @param {number} z - z of the position
+             * @param {string} speciesName - species of the flower
+             * @returns {Promise<Flower | null>} the flower in Promise, or null if the position is not free
+             * @impure
+             */
+            static async nextAt(x: number, z: number, speciesName = species.defaultName): Promise<model.Flower | null> {
+                if (!this.isFree(x, z, speciesName)) return null
+                const random: prng.RandomGenerator = prng.fork()
+                const building: Promise<model.Flower> = this.build(randomTraits(species.get(speciesName), random), random)
+                return this.enqueue(building, flower => {
+                    // another flower may have taken the position meanwhile
+                    if (!this.isFree(x, z, speciesName)) {
+                        objectLoading.AssetManager.dispose(flower.all())
+                        return null
+                    }
+                    const reference: THREE.Vector3 = flower.stem.position
+                    return this.add(terrain.settle(flower.moveBy(x - reference.x, 0, z - reference.z)))
+                })
+            }
+
+            /**
+             * Breed a new flower from two flowers, of the species of the mother and placed near her
+             * @param {Flower} mother - the parent bearing the seed
+             * @param {Flower} father - the parent giving the pollen
+             * @returns {Promise<Flower | null>} the flower in Promise, or null if there is no room near the mother
+             * @impure
+             */
+            static nextOffspring(mother: model.Flower, father: model.Flower): Promise<model.Flower | null> {
+                const speciesName: string = mother.traits.species
+                const random: prng.RandomGenerator = prng.fork()
+                const genome: genetics.Genome = genetics.mutate(
+                    genetics.crossover(mother.traits, father.traits, random),
+                    randomTraits(species.get(speciesName), random),
+                    constant.flower.mutationRate,
+                    random
+                )
+                const building: Promise<model.Flower> = this.build(genome, random)
+                return this.enqueue(building, flower => {
+                    const reference: THREE.Vector3 = flower.stem.position
+                    const origin: THREE.Vector3 = mother.stem.position
+                    flower.moveBy(origin.x - reference.x, 0, origin.z - reference.z)
+                    const distance: number = constant.flower.offspringDistance
+                    const moved: model.Flower | null = flower.moveRandomly(
+                        (x, z) => this.isFree(x, z, speciesName),
+                        {xMin: 0, xMax: distance, zMin: 0, zMax: distance}
+                    )
+                    if (moved === null) {
+                        objectLoading.AssetManager.dispose(flower.all())
+                        return null
+                    }
+                    return this.add(terrain.settle(moved.descendFrom(mother, father)))
+                })
+            }
+
+            /**
+             * Check whether a new flower can be placed at a position
+             * @param {number} x - x of the position
+             * @param {number} z - z of the position
+             * @param {string} speciesName - species of the flower, whose footprint is checked
+             * @returns {boolean} false if the position is restricted, taken by another flower or too steep
+             */
+            static isFree(x: number, z: number, speciesName = species.defaultName): boolean {
+                return !exclusion.restricts(x, z)
+                    && !this.isOccupied(x, z, species.get(speciesName).footprint)
+                    && this.isPlantable(x, z)
+            }
+
+            /**
+             * Check whether a flower at a position would stand too close to another one
+             * Two flowers are too close if either one stands in the footprint of the other
+             * @param {number} x - x of the position
+             * @param {number} z - z of the position
+             * @param {number} footprint - footprint of the flower, see species.Species.footprint
+             * @returns {boolean} result
+             */
+            private static isOccupied(x: number, z: number, footprint: number): boolean {
+                return this.occupied.query(spatial.square(x, z, footprint)).some(flower => {
+                    const reference: THREE.Vector3 = flower.stem.position
+                    const distance: number = Math.max(footprint, species.get(flower.traits.species).footprint)
+                    return Math.abs(reference.x - x) < distance && Math.abs(reference.z - z) < distance
+                })
+            }
+
+            /**
+             * Check whether the land at a position suits a flower, regardless of other flowers
+             * @param {number} x - x of the position
+             * @param {number} z - z of the position
+             * @returns {boolean} false if the land is masked out or too steep
+             */
+            private static isPlantable(x: number, z: number): boolean {
+                return !exclusion.masks(x, z) && terrain.isPlantable(x, z)
+            }
+
+            /**
+             * Describe every generated flower and the state of the garden generator
+             * @returns {GardenData} the garden
+             */
+            static export(): persistence.GardenData {
+                return {
+                    version: persistence.version,
+                    random: persistence.captureRandom(prng.global()),
+                    flowers: this.generatedFlowers.map(persistence.serializeFlower)
+                }
+            }
+
+            /**
+             * Replace the generated flowers with the ones of a garden
+             * @param {GardenData} garden - the garden
+             * @returns {Promise<{restored: Flower[], replaced: Flower[]}>} the restored flowers and the flowers
+             * they replace in Promise
+             * @impure
+             */
+            static restore(garden: persistence.GardenData):
+                Promise<{restored: model.Flower[], replaced: model.Flower[]}> {
+                const builds: Promise<model.Flower>[] = garden.flowers.map(data =>
+                    this.build(data.traits, persistence.restoreRandom(data.random))
+                        .then(flower => {
+                            persistence.applyFlower(flower, data)
+                            return flower
+                        })
+                )
+                const building: Promise<model.Flower[]> = Promise.all(builds).catch(async e => {
+                    // free the flowers built anyway
+                    await objectLoading.AssetManager.disposeLoaded(builds.map(build => build.then(flower => flower.all())))
+                    throw e
+                })
+                return this.enqueue(building, flowers => {
+                    // the flowers placed by the generations requested before are replaced too
+                    const replaced: model.Flower[] = this.generatedFlowers.slice()
+                    this.reset()
+                    flowers.forEach(flower => this.add(flower))
+                    prng.use(persistence.restoreRandom(garden.random))
+                    return {restored: flowers.slice(), replaced: replaced}
+                })
+            }
+        }
+    }
+
+    /**
+     * Batching of the meshes repeated in many flowers, all the copies of a mesh being drawn at once by a batch
+     * The copies stay in scene, moved around by the growth updates, but the camera only sees their batches
+     */
+    namespace instancing {
+        /**
+         * Layer of the batched copies, which the camera doesn't see
+         */
+        const hiddenLayer = 1
+
+        /**
+         * Material whose shaders can be rewritten before compiling, see Material.onBeforeCompile() of THREE.js
+         */
+        interface ShaderHook extends THREE.Material {
+            onBeforeCompile: (shader: {vertexShader: string}) => void
+        }
+
+        /**
+         * Mesh whose shadows are drawn with a material of its own, see Object3D.customDepthMaterial of THREE.js
+         */
+        interface ShadowCaster extends THREE.Mesh {
+            customDepthMaterial: THREE.Material
+        }
+
+        /**
+         * Parameters of a depth material, with the packing of depths the typings of THREE.js miss
+         */
+        interface DepthMaterialParameters extends THREE.MeshDepthMaterialParameters {
+            depthPacking?: number
+        }
+
+        /**
+         * Transform each vertex by the matrix of its instance, which comes as 4 columns
+         * @param {{vertexShader: string}} shader - the shader to rewrite
+         * @impure
+         */
+        function instanceShader(shader: {vertexShader: string}): void {
+            shader.vertexShader = shader.vertexShader
+                .replace('#include <common>', [
+                    '#include <common>',
+                    'attribute vec4 instanceColumn0;',
+                    'attribute vec4 instanceColumn1;',
+                    'attribute vec4 instanceColumn2;',
+                    'attribute vec4 instanceColumn3;',
+                    // a macro rather than a variable, as the depth shaders of shadows have no normals to declare it with
+                    '#define INSTANCE_MATRIX mat4(instanceColumn0, instanceColumn1, instanceColumn2, instanceColumn3)'
+                ].join('\n'))
+                // fair enough for the nearly uniform scales of the batched parts
+                .replace('#include <beginnormal_vertex>', 'vec3 objectNormal = normalize(mat3(INSTANCE_MATRIX) * vec3(normal));')
+                .replace('#include <begin_vertex>', 'vec3 transformed = (INSTANCE_MATRIX * vec4(position, 1.0)).xyz;')
+        }
+
+        /**
+         * Let a material draw instances, see instanceShader()
+         * @param {T} material - the material
+         * @returns {T} the material
+         * @impure
+         */
+        function hookInstanceShader<T extends THREE.Material>(material: T): T {
+            (<ShaderHook><THREE.Material>material).onBeforeCompile = instanceShader
+            return material
+        }
+
+        /**
+         * All the copies of a mesh, sharing its geometry and material
+         */
+        class Batch {
+            readonly mesh: ShadowCaster
+            private members: THREE.Mesh[] = []
+            /**
+             * Index of each member in members, so that a member is found without going through all of them
+             */
+            private indices: Map<THREE.Mesh, number> = new Map<THREE.Mesh, number>()
+            private columns: THREE.InstancedBufferAttribute[] = []
+
+            private constructor(readonly key: string, private source: THREE.Mesh) {
+                const material: THREE.Material = hookInstanceShader((<THREE.Material>source.material).clone())
+                this.mesh = <ShadowCaster>new THREE.Mesh(this.createGeometry(16), material)
+                // instances are spread all over the garden, away from the bounds of the source geometry
+                this.mesh.frustumCulled = false
+                // the shadows of the instances have to be moved the same
+                const depthParameters: DepthMaterialParameters = {depthPacking: THREE.RGBADepthPacking}
+                this.mesh.customDepthMaterial = hookInstanceShader(new THREE.MeshDepthMaterial(depthParameters))
+                this.mesh.castShadow = source.castShadow
+                this.mesh.receiveShadow = source.receiveShadow
+            }
+            static of(key: string, source: THREE.Mesh): Batch {
+                return new Batch(key, source)
+            }
+
+            /**
+             * Create a geometry sharing the attributes of the source one, with room for some instances
+             * @param {number} capacity - the number of instances
+             * @returns {InstancedBufferGeometry} the geometry
+             * @impure
+             */
+            private createGeometry(capacity: number): THREE.InstancedBufferGeometry {
+                const source = <THREE.BufferGeometry>this.source.geometry
+                const geometry = new THREE.InstancedBufferGeometry()
+                // the typings of THREE.js miss that the attributes are by name
+                const attributes = <{[name: string]: THREE.BufferAttribute}><{}>source.attributes
+                for (const name of Object.keys(attributes)) {
+                    geometry.addAttribute(name, attributes[name])
+                }
+                if (source.index) geometry.setIndex(source.index)
+                this.columns = util.range(4).map(column => {
+                    const attribute = new THREE.InstancedBufferAttribute(new Float32Array(capacity * 4), 4, 1)
+                    attribute.setDynamic(true)
+                    geometry.addAttribute('instanceColumn' + column, attribute)
+                    return attribute
+                })
+                geometry.maxInstancedCount = this.members.length
+                return geometry
+            }
+
+            /**
+             * Check whether a copy is shown, i.e. none of its ancestors is hidden
+             * @param {Object3D} object - the copy
+             * @returns {boolean} result
+             */
+            private static isShown(object: THREE.Object3D): boolean {
+                for (let current: THREE.Object3D | null = object; current !== null; current = current.parent) {
+                    if (!current.visible) return false
+                }
+                return true
+            }
+
+            /**
+             * Copy the transform of a member to its instance, or collapse the instance if the member is hidden
+             * @param {number} index - index of the member
+             * @impure
+             */
+            private write(index: number): void {
+                const member: THREE.Mesh = this.members[index]
+                const elements: ArrayLike<number> = Batch.isShown(member) ? member.matrixWorld.elements : new Float32Array(16)
+                for (let column = 0; column < 4; column++) {
+                    const offset: number = column * 4
+                    this.columns[column].setXYZW(index,
+                        elements[offset], elements[offset + 1], elements[offset + 2], elements[offset + 3])
+                    this.columns[column].needsUpdate = true
+                }
+            }
+
+            add(member: THREE.Mesh): void {
+                if (this.indices.has(member)) return
+                this.indices.set(member, this.members.length)
+                this.members.push(member)
+                if (this.members.length > this.columns[0].count) {
+                    // the attributes can't grow, so make a geometry twice as large
+                    this.mesh.geometry.dispose()
+                    this.mesh.geometry = this.createGeometry(this.members.length * 2)
+                    this.members.forEach((_, index) => this.write(index))
+                } else {
+                    this.write(this.members.length - 1)
+                }
+                (<THREE.InstancedBufferGeometry>this.mesh.geometry).maxInstancedCount = this.members.length
+            }
+
+            remove(member: THREE.Mesh): void {
+                const index: number | undefined = this.indices.get(member)
+                if (index === undefined) return
+                this.indices.delete(member)
+                // the last member takes the place of the removed one
+                const last: THREE.Mesh = <THREE.Mesh>this.members.pop()
+                if (index < this.members.length) {
+                    this.members[index] = last
+                    this.indices.set(last, index)
+                    this.write(index)
+                }
+                (<THREE.InstancedBufferGeometry>this.mesh.geometry).maxInstancedCount = this.members.length
+            }
+
+            update(member: THREE.Mesh): void {
+                const index: number | undefined = this.indices.get(member)
+                if (index !== undefined) this.write(index)
+            }
+
+            isEmpty(): boolean {
+                return this.members.length === 0
+            }
+
+            dispose(): void {
+                if (this.mesh.parent !== null) this.mesh.parent.remove(this.mesh)
+                this.mesh.geometry.dispose()
+                ;(<THREE.Material>this.mesh.material).dispose()
+                this.mesh.customDepthMaterial.dispose()
+            }
+        }
+
+        /**
+         * Batches by the geometry and material of their source mesh
+         */
+        const batches: {[key: string]: Batch} = {}
+
+        /**
+         * Batch of each batched copy, by the uuid of the copy
+         */
+        const batchOf: {[uuid: string]: Batch} = {}
+
+        /**
+         * Get the parts repeated in every flower, which are worth batching
+         * @param {Flower} flower - the flower
+         * @returns {Object3D[]} the stamens, petals and leaves
+         */
+        export function partsOf(flower: model.Flower): THREE.Object3D[] {
+            return (<THREE.Object3D[]>flower.stamens).concat(flower.petals, flower.leaves)
+        }
+
+        /**
+         * Draw the meshes in objects with their batches, creating the missing batches
+         * @param {Scene} scene - scene the objects are in
+         * @param {Object3D[]} objects - the objects
+         * @impure
+         */
+        export function add(scene: THREE.Scene, objects: THREE.Object3D[]): void {
+            objects.forEach(object => object.updateMatrixWorld(true))
+            for (const mesh of threeEx.ObjectsHelper.of(objects).meshes()) {
+                if (batchOf[mesh.uuid] !== undefined
+                    || !(mesh.geometry instanceof THREE.BufferGeometry)
+                    || mesh.material instanceof Array) continue
+                const key: string = mesh.geometry.uuid + '_' + mesh.material.uuid
+                if (batches[key] === undefined) {
+                    batches[key] = Batch.of(key, mesh)
+                    scene.add(batches[key].mesh)
+                }
+                batches[key].add(mesh)
+                batchOf[mesh.uuid] = batches[key]
+                mesh.layers.set(hiddenLayer)
+            }
+        }
+
+        /**
+         * Draw the meshes in objects on their own again, dropping the batches left empty
+         * @param {Object3D[]} objects - the objects
+         * @impure
+         */
+        export function remove(objects: THREE.Object3D[]): void {
+            for (const mesh of threeEx.ObjectsHelper.of(objects).meshes()) {
+                const batch: Batch | undefined = batchOf[mesh.uuid]
+                if (batch === undefined) continue
+                batch.remove(mesh)
+                delete batchOf[mesh.uuid]
+                mesh.layers.set(0)
+                if (batch.isEmpty()) {
+                    batch.dispose()
+                    delete batches[batch.key]
+                }
+            }
+        }
+
+        /**
+         * Pass the transforms and visibility of objects on to their batches, after the objects have been moved
+         * @param {Object3D[]} objects - the objects
+         * @impure
+         */
+        export function update(objects: THREE.Object3D[]): void {
+            objects.forEach(object => object.updateMatrixWorld(true))
+            for (const mesh of threeEx.ObjectsHelper.of(objects).meshes()) {
+                const batch: Batch | undefined = batchOf[mesh.uuid]
+                if (batch !== undefined) batch.update(mesh)
+            }
+        }
+
+        /**
+         * Get the number of batches, each one being drawn with a single draw call
+         * @returns {number} the number
+         */
+        export function count(): number {
+            return Object.keys(batches).length
+        }
+    }
+
+    /**
+     * Export of the garden to other 3D tools
+     */
+    namespace exporting {
+        /**
+         * Get a material glTF describes well, as glTF only knows physically based materials
+         * @param {Material} material - the material drawn on screen
+         * @param {{[uuid: string]: Material}} converted - materials converted so far, by uuid of the original
+         * @returns {Material} the material, or a standard one looking alike
+         * @impure
+         */
+        function standardMaterialOf(material: THREE.Material,
+                                    converted: {[uuid: string]: THREE.Material}): THREE.Material {
+            if (material instanceof THREE.MeshStandardMaterial || material instanceof THREE.MeshBasicMaterial) return material
+            if (converted[material.uuid] === undefined) {
+                const source = <THREE.MeshLambertMaterial>material
+                const standard = new THREE.MeshStandardMaterial({
+                    color: source.color,
+                    map: source.map,
+                    vertexColors: source.vertexColors,
+                    side: source.side,
+                    transparent: source.transparent,
+                    opacity: source.opacity,
+                    alphaTest: source.alphaTest,
+                    // as matte as Lambert's
+                    metalness: 0,
+                    roughness: 1
+                })
+                standard.name = source.name
+                converted[material.uuid] = standard
+            }
+            return converted[material.uuid]
+        }
+
+        /**
+         * Copy the visible parts of objects, with materials glTF describes well
+         * @param {Object3D} object - the object
+         * @param {string} name - name of the copy
+         * @param {{[uuid: string]: Material}} converted - materials converted so far, see standardMaterialOf()
+         * @returns {Object3D} the copy, sharing the geometries of the object
+         */
+        function copyOf(object: THREE.Object3D, name: string, converted: {[uuid: string]: THREE.Material}): THREE.Object3D {
+            const copy: THREE.Object3D = object.clone()
+            copy.name = name
+            for (const mesh of threeEx.ObjectsHelper.of([copy]).meshes()) {
+                mesh.material = mesh.material instanceof Array
+                    ? mesh.material.map(material => standardMaterialOf(material, converted))
+                    : standardMaterialOf(mesh.material, converted)
+            }
+            return copy
+        }
+
+        /**
+         * Build a scene of the land and flowers to be exported, each flower being a node named flower_<index>,
+         * whose parts are named stem, torus, stamen_<index>, petal_<index> and leaf_<index>
+         * @param {Object3D} land - the land
+         * @param {Flower[]} flowers - the flowers, as they are posed now
+         * @returns {Scene} the scene, sharing the geometries and textures of the land and flowers
+         */
+        export function sceneOf(land: THREE.Object3D, flowers: model.Flower[]): THREE.Scene {
+            const converted: {[uuid: string]: THREE.Material} = {}
+            const scene = new THREE.Scene()
+            scene.add(copyOf(land, 'land', converted))
+            flowers.forEach((flower, index) => {
+                const node = new THREE.Group()
+                node.name = 'flower_' + index
+                // parts are placed relative to the root of the stem, so the flower turns around its stem in 3D tools
+                node.position.copy(flower.stem.position)
+                node.userData = {species: flower.traits.species, progress: flower.progress}
+                const parts: {object: THREE.Object3D, name: string}[] = [
+                    {object: flower.stem, name: 'stem'},
+                    {object: flower.torus, name: 'torus'}
+                ].concat(
+                    flower.stamens.map((object, i) => ({object: <THREE.Object3D>object, name: 'stamen_' + i})),
+                    flower.petals.map((object, i) => ({object: <THREE.Object3D>object, name: 'petal_' + i})),
+                    flower.leaves.map((object, i) => ({object: <THREE.Object3D>object, name: 'leaf_' + i}))
+                )
+                for (const part of parts) {
+                    if (!part.object.visible) continue
+                    const copy: THREE.Object3D = copyOf(part.object, part.name, converted)
+                    copy.position.sub(node.position)
+                    node.add(copy)
+                }
+                scene.add(node)
+            })
+            return scene
+        }
+
+        /**
+         * Write a scene as a .glb file
+         * @param {Scene} scene - the scene
+         * @returns {Promise<ArrayBuffer>} content of the file in Promise
+         */
+        export function toGlb(scene: THREE.Scene): Promise<ArrayBuffer> {
+            return new Promise<ArrayBuffer>(resolve => {
+                threeEx.examples.GLTFExporter().parse(scene, result => resolve(<ArrayBuffer>result), {binary: true})
+            })
+        }
+    }
+
+    /**
+     * Rendering utils
+     */
+    namespace rendering {
+
+        /**
+         * Number of growth ticks per second
+         * Growth rates below are expressed per tick, the frame length the animation was designed at
+         */
+        const ticksPerSecond = 60
+
+        /**
+         * Part of its length the stem grows by per tick, which the growth thresholds of species refer to
+         */
+        const stemRate = 0.001
+
+        /**
+         * Ticks between the stamens at the center and the ones at the rim coming out
+         */
+        const stamenStagger = 60
+
+        /**
+         * Angle in radians the petals open by per tick
+         */
+        const petalOpeningRate = 0.005
+
+        /**
+         * Ticks between the first and the last petals of a whorl starting to open, going around the flower head
+         */
+        const petalOpeningStagger = 90
+
+        /**
+         * Ticks the petals of a whorl start to open after the ones of the whorl around it
+         */
+        const whorlOpeningDelay = 60
+
+        /**
+         * Value moving linearly from start towards target, and staying there once reached
+         * @param {number} start - value before moving
+         * @param {number} target - value to move to
+         * @param {number} rate - distance moved per tick
+         * @param {number} ticks - elapsed ticks, not positive if the move hasn't started
+         * @returns {number} the value
+         */
+        function ramp(start: number, target: number, rate: number, ticks: number): number {
+            if (ticks <= 0) return start
+            const distance: number = rate * ticks
+            return start < target ? Math.min(start + distance, target) : Math.max(start - distance, target)
+        }
+
+        /**
+         * Get the tick at which the stem has grown some part of its length
+         * @param {Species} definition - species of the flower
+         * @param {number} growth - the part of the length
+         * @returns {number} the tick
+         */
+        function stemTicks(definition: species.Species, growth: number): number {
+            return (growth - definition.stem.initialGrowth) / stemRate
+        }
+
+        /**
+         * Get the part of its length the stem has grown at a tick
+         * @param {Species} definition - species of the flower
+         * @param {number} ticks - ticks since the flower started growing
+         * @returns {number} the part of the length
+         */
+        function stemGrowth(definition: species.Species, ticks: number): number {
+            return ramp(definition.stem.initialGrowth, 1, stemRate, ticks)
+        }
+
+        /**
+         * How far the petals of every flower may open, following the time of day, in [0, 1]
+         */
+        let petalOpenness = 1
+
+        /**
+         * Set how far the petals of every flower may open, see sky.petalOpennessAt()
+         * @param {number} openness - openness in [0, 1], 0 for closed
+         * @returns {boolean} whether the flowers have to be posed again to show it
+         * @impure
+         */
+        export function setPetalOpenness(openness: number): boolean {
+            if (openness === petalOpenness) return false
+            // tiny changes wait for the next ones, as posing every flower is costly
+            if (Math.abs(openness - petalOpenness) < 0.01 && openness !== 0 && openness !== 1) return false
+            petalOpenness = openness
+            return true
+        }
+
+        /**
+         * Controls how fast all flowers grow
+         */
+        export class GrowthClock {
+            private static speed = 1
+            private static paused = false
+
+            static setSpeed(speed: number): void {
+                if (speed < 0) throw new error.IllegalArgumentError('Invalid growth speed')
+                this.speed = speed
+            }
+
+            static getSpeed(): number {
+                return this.speed
+            }
+
+            static pause(): void {
+                this.paused = true
+            }
+
+            static resume(): void {
+                this.paused = false
+                Scheduler.wake()
+            }
+
+            static isPaused(): boolean {
+                return this.paused
+            }
+
+            /**
+             * Let a flower grow, or wilt if it is wilting, for some time
+             * @param {Flower} flower - the flower
+             * @param {number} seconds - elapsed time
+             * @impure
+             */
+            static advance(flower: model.Flower, seconds: number): void {
+                if (this.paused || seconds <= 0) return
+                const growth: species.GrowthDefinition = species.get(flower.traits.species).growth
+                if (flower.wilting !== null) {
+                    flower.wilting = Math.min(1, flower.wilting + seconds * this.speed / growth.wiltDuration)
+                } else {
+                    flower.progress = Math.min(1, flower.progress + seconds * this.speed / growth.duration)
+                }
+            }
+        }
+
+        export interface WindSettings {
+            /**
+             * Direction the wind blows towards, in radians around the vertical axis, 0 towards +x and PI / 2 towards +z
+             */
+            direction: number
+            /**
+             * Average angle the stems bend by, in radians, 0 for no wind
+             */
+            strength: number
+            /**
+             * How much gusts vary the strength, in [0, 1]
+             */
+            gustiness: number
+            /**
+             * Angle the leaves and petals at the top of a stem flutter by in average gusts, in radians
+             */
+            flutter: number
+        }
+
+        /**
+         * The wind blowing over the garden, in gusts travelling along its direction
+         */
+        export class Wind {
+            private static settings: WindSettings = {direction: 0, strength: 0, gustiness: 0.5, flutter: 0.15}
+            /**
+             * Seconds the wind has blown for
+             */
+            private static time = 0
+            /**
+             * Length of the gusts along the direction of the wind
+             */
+            private static readonly gustLength = 200
+            /**
+             * Speed of the gusts, as far as they travel in a second
+             */
+            private static readonly gustSpeed = 60
+
+            static getSettings(): WindSettings {
+                const settings: WindSettings = this.settings
+                return {direction: settings.direction, strength: settings.strength,
+                    gustiness: settings.gustiness, flutter: settings.flutter}
+            }
+
+            static setSettings(settings: WindSettings): void {
+                if (!(settings.strength >= 0) || !(settings.gustiness >= 0 && settings.gustiness <= 1)
+                    || !(settings.flutter >= 0) || isNaN(settings.direction)) {
+                    throw new error.IllegalArgumentError('Invalid wind settings')
+                }
+                this.settings = settings
+            }
+
+            static isBlowing(): boolean {
+                return this.settings.strength > 0
+            }
+
+            /**
+             * Let the gusts travel for some time
+             * @param {number} seconds - elapsed time
+             * @impure
+             */
+            static advance(seconds: number): void {
+                if (this.isBlowing()) this.time += seconds
+            }
+
+            /**
+             * Get the horizontal direction the wind blows towards
+             * @returns {Vector3} the direction
+             */
+            static direction(): THREE.Vector3 {
+                return new THREE.Vector3(Math.cos(this.settings.direction), 0, Math.sin(this.settings.direction))
+            }
+
+            /**
+             * Get the strength of the wind at a place, relative to the average strength
+             * @param {number} x - x of the place
+             * @param {number} z - z of the place
+             * @returns {number} the strength, in [1 - gustiness, 1 + gustiness]
+             */
+            static gustAt(x: number, z: number): number {
+                const direction: THREE.Vector3 = this.direction()
+                const distance: number = x * direction.x + z * direction.z - this.time * this.gustSpeed
+                const phase: number = distance / this.gustLength * 2 * Math.PI
+                return 1 + this.settings.gustiness * (0.6 * Math.sin(phase) + 0.4 * Math.sin(2.7 * phase + 1.3))
+            }
+
+            /**
+             * Get the angle the wind bends stems by at a place
+             * @param {number} x - x of the place
+             * @param {number} z - z of the place
+             * @returns {number} the angle in radians
+             */
+            static bendAt(x: number, z: number): number {
+                // stems swing back a little between gusts
+                const swing: number = 0.85 + 0.15 * Math.sin(this.time * 2 * Math.PI * 0.8 + (x + z) * 0.05)
+                return this.settings.strength * this.gustAt(x, z) * swing
+            }
+
+            /**
+             * Get the angle leaves and petals flutter by, at the top of a stem standing at a place
+             * @param {number} x - x of the place
+             * @param {number} z - z of the place
+             * @param {number} index - index of the leaf or petal, so that they don't all flutter together
+             * @returns {number} the angle in radians
+             */
+            static flutterAt(x: number, z: number, index: number): number {
+                const frequency: number = 3 + index % 3
+                return this.settings.flutter * this.gustAt(x, z)
+                    * Math.sin(this.time * 2 * Math.PI * frequency + index * 1.7 + x * 0.1)
+            }
+        }
+
+        /**
+         * Where the flower head sits: on top of the stem as far as it has grown, turned along it
+         */
+        interface Head {
+            position: THREE.Vector3
+            quaternion: THREE.Quaternion
+        }
+
+        /**
+         * Update stem object
+         * @param {Group} stem - stem object
+         * @param {Species} definition - species of the flower
+         * @param {StemShape} shape - shape of the stem
+         * @param {number} ticks - ticks since the flower started growing
+         * @impure
+         */
+        function updateStem(stem: THREE.Group, definition: species.Species, shape: model.StemShape, ticks: number): void {
+            stem.rotation.set(0, 0, 0)
+            stemShaping.grow(stem, shape, stemGrowth(definition, ticks),
+                definition.stem.radius * ramp(0.3, 1, 0.004, ticks))
+        }
+
+        /**
+         * Get the flower head on top of a stem
+         * @param {CatmullRomCurve3} curve - spline of the stem
+         * @param {number} growth - part of the spline grown
+         * @param {Vector3} origin - position of the root of the flower
+         * @returns {Head} the head
+         */
+        function headOf(curve: THREE.CatmullRomCurve3, growth: number, origin: THREE.Vector3): Head {
+            return {
+                position: curve.getPoint(growth).add(origin),
+                quaternion: new THREE.Quaternion().setFromUnitVectors(new THREE.Vector3(0, 1, 0), curve.getTangent(growth))
+            }
+        }
+
+        /**
+         * Update torus object and stamen objects
+         * @param {Group} torus - torus object
+         * @param {Group[]} stamens - stamen objects
+         * @param {Species} definition - species of the flower
+         * @param {Head} head - the flower head
+         * @param {number} ticks - ticks since the torus started growing
+         * @impure
+         */
+        function updateTorusAndStamens(torus: THREE.Group, stamens: THREE.Group[], definition: species.Species,
+                                       head: Head, ticks: number): void {
+            const initialScale: number[] = definition.torus.scale
+            const scaleTicks: number = Math.min(ticks, Math.max(0, (0.1 - initialScale[0]) / 0.00035))
+            const xAxis = new THREE.Vector3(1, 0, 0)
+            torus.visible = ticks >= 0
+            torus.scale.set(
+                ramp(initialScale[0], 0.1, 0.00035, scaleTicks),
+                initialScale[1] + 0.00025 * Math.max(0, scaleTicks),
+                ramp(initialScale[2], 0.1, 0.00035, scaleTicks)
+            )
+            const position: number[] = definition.torus.position
+            torus.position.set(position[0], position[1], position[2]).applyQuaternion(head.quaternion).add(head.position)
+            torus.quaternion.copy(head.quaternion)
+                .multiply(new THREE.Quaternion().setFromAxisAngle(xAxis, definition.torus.rotationX))
+            const placements: arranging.StamenPlacement[] = arranging.stamens(definition.stamen, stamens.length)
+            for (let i = 0; i < stamens.length; i++) {
+                const stamen: THREE.Group = stamens[i]
+                const placement: arranging.StamenPlacement = placements[i]
+                // from the center outwards
+                const stamenTicks: number = ticks - placement.distance * stamenStagger
+                stamen.visible = stamenTicks >= 0
+                stamen.scale.set(
+                    ramp(definition.stamen.scale[0], 0.12, 0.0003, stamenTicks),
+                    ramp(definition.stamen.scale[1], 0.12, 0.0003, stamenTicks),
+                    ramp(definition.stamen.scale[2], 0.12, 0.0003, stamenTicks)
+                )
+                stamen.position.copy(placement.position).applyQuaternion(head.quaternion).add(head.position)
+                stamen.quaternion.copy(head.quaternion)
+                    .multiply(new THREE.Quaternion().setFromAxisAngle(xAxis, definition.stamen.rotationX))
+            }
+        }
+
+        /**
+         * Update petal objects
+         * @param {Group[]} petals - petal objects
+         * @param {Species} definition - species of the flower
+         * @param {number} whorls - number of whorls the petals are arranged in
+         * @param {Head} head - the flower head
+         * @param {number} ticks - ticks since the petals started growing
+         * @param {number} openness - how far the petals may open, in [0, 1]
+         * @impure
+         */
+        function updatePetals(petals: THREE.Group[], definition: species.Species, whorls: number,
+                              head: Head, ticks: number, openness: number): void {
+            const position: number[] = definition.petal.position
+            const placements: arranging.PetalPlacement[] = arranging.petals(petals.length, whorls)
+            const xAxis = new THREE.Vector3(1, 0, 0)
+            const yAxis = new THREE.Vector3(0, 1, 0)
+            const tilt: THREE.Quaternion = new THREE.Quaternion().setFromAxisAngle(xAxis, definition.petal.tilt)
+            const closed: number = definition.petal.closedAngle
+            for (let i = 0; i < petals.length; i++) {
+                const petal: THREE.Group = petals[i]
+                const placement: arranging.PetalPlacement = placements[i]
+                // inner whorls are smaller, and stay more upright
+                const inner: number = placement.whorl / whorls
+                const size: number = 1 - 0.25 * inner
+                petal.visible = ticks >= 0
+                petal.position.set(position[0], position[1], position[2]).applyQuaternion(head.quaternion).add(head.position)
+                petal.scale.set(
+                    ramp(definition.petal.scale[0], 1, 0.004, ticks) * size,
+                    ramp(definition.petal.scale[1], 1, 0.004, ticks) * size,
+                    ramp(definition.petal.scale[2], 1, 0.004, ticks) * size
+                )
+                // open one after another around the flower head, the inner whorls last,
+                // as far as the time of day lets it
+                const open: number = definition.petal.openAngle + (closed - definition.petal.openAngle) * inner * 0.5
+                const turn: number = (placement.azimuth / (Math.PI * 2)) % 1
+                const openingTicks: number = ticks - turn * petalOpeningStagger - placement.whorl * whorlOpeningDelay
+                const rise: number = closed + (ramp(closed, open, petalOpeningRate, openingTicks) - closed) * openness
+                // rise from the flower head, turned to the azimuth of the petal, then tilted with the head
+                petal.quaternion.copy(head.quaternion)
+                    .multiply(tilt)
+                    .multiply(new THREE.Quaternion().setFromAxisAngle(yAxis, placement.azimuth))
+                    .multiply(new THREE.Quaternion().setFromAxisAngle(xAxis, rise))
+            }
+        }
+
+        /**
+         * Update leaf objects
+         * @param {Group[]} leaves - leaf objects
+         * @param {Species} definition - species of the flower
+         * @param {CatmullRomCurve3} curve - spline of the stem
+         * @param {boolean[]} lottery - whether each leaf will be shown
+         * @param {number[][]} rotations - initial [x, y] rotation of each leaf
+         * @param {Vector3} origin - position of the root of the flower
+         * @param {number} ticks - ticks since the flower started growing
+         * @impure
+         */
+        function updateLeaves(leaves: THREE.Group[], definition: species.Species, curve: THREE.CatmullRomCurve3,
+                              lottery: boolean[], rotations: number[][], origin: THREE.Vector3, ticks: number): void {
+            const placements: arranging.LeafPlacement[] = arranging.leaves(definition.leaf)
+            const initialGrowth: number = definition.stem.initialGrowth
+            const growth: number = stemGrowth(definition, ticks)
+            for (let i = 0; i < leaves.length; i++) {
+                const leaf: THREE.Group = leaves[i]
+                const placement: arranging.LeafPlacement = placements[i]
+                // from the root upwards, the highest leaves coming out as the torus does
+                const threshold: number =
+                    initialGrowth + (definition.growth.torusThreshold - initialGrowth) * placement.height
+                const leafTicks: number = ticks - stemTicks(definition, threshold)
+                const initialScale: number[] = definition.leaf.scale
+                const scaleTicks: number = Math.min(leafTicks, Math.max(0, (1 - initialScale[0]) / 0.004))
+                // show
+                leaf.visible = leafTicks >= 0 && lottery[i]
+                // positioning, on the stem as far as it has grown, the nodes spreading out as it does
+                leaf.position.copy(curve.getPoint(placement.height * growth)).add(origin)
+                // scale
+                leaf.scale.set(
+                    ramp(initialScale[0], 1, 0.004, scaleTicks),
+                    ramp(initialScale[1], 1, 0.004, scaleTicks),
+                    initialScale[2] + 0.002 * Math.max(0, scaleTicks)
+                )
+                // rotate towards a resting angle
+                const rest: number = Math.max(-Math.PI * 0.1, Math.min(Math.PI * 0.1, rotations[i][0]))
+                leaf.rotation.set(ramp(rotations[i][0], rest, 0.0015, leafTicks), placement.azimuth + rotations[i][1], 0)
+            }
+        }
+
+        /**
+         * Let a flower wilt: the stem droops, then the petals drop to the ground one after another
+         * @param {Flower} flower - the flower object
+         * @param {number} amount - wilting progress in [0, 1]
+         * @impure
+         */
+        function updateWilting(flower: model.Flower, amount: number): void {
+            const origin: THREE.Vector3 = flower.stem.position.clone()
+            // droop around the root, towards the side the stem already leans to
+            const direction: number = flower.traits.stemShape.direction
+            const axis: THREE.Vector3 = new THREE.Vector3(Math.cos(direction), 0, Math.sin(direction))
+                .cross(new THREE.Vector3(0, 1, 0))
+            const droop: THREE.Quaternion = new THREE.Quaternion().setFromAxisAngle(axis, -amount)
+            for (const object of flower.all()) {
+                object.position.sub(origin).applyQuaternion(droop).add(origin)
+                object.quaternion.premultiply(droop)
+            }
+            // drop
+            const placements: arranging.PetalPlacement[] = arranging.petals(flower.petals.length, flower.traits.petalWhorls)
+            for (let i = 0; i < flower.petals.length; i++) {
+                const petal: THREE.Group = flower.petals[i]
+                const start: number = 0.5 * i / flower.petals.length
+                const fall: number = Math.max(0, Math.min(1, (amount - start) / 0.5))
+                petal.position.y += (origin.y - petal.position.y) * fall
+                petal.position.x += Math.sin(placements[i].azimuth) * 5 * fall
+                petal.position.z += Math.cos(placements[i].azimuth) * 5 * fall
+                petal.rotation.x += Math.PI * 0.5 * fall
+            }
+        }
+
+        /**
+         * Bend a flower in the wind, on top of its growth
+         * @param {Flower} flower - the flower object
+         * @impure
+         */
+        function updateWind(flower: model.Flower): void {
+            if (!Wind.isBlowing()) return
+            const origin: THREE.Vector3 = flower.stem.position.clone()
+            // the stem bends towards the wind around its root
+            const axis: THREE.Vector3 = new THREE.Vector3(0, 1, 0).cross(Wind.direction())
+            const bend: THREE.Quaternion = new THREE.Quaternion().setFromAxisAngle(axis, Wind.bendAt(origin.x, origin.z))
+            // leaves and petals flutter the more, the higher they are on the stem
+            const parts: THREE.Group[] = flower.leaves.concat(flower.petals)
+            const top: number = Math.max(flower.torus.position.y - origin.y, 1)
+            const heights: number[] = parts.map(part => Math.max(0, Math.min(1, (part.position.y - origin.y) / top)))
+            for (const object of flower.all()) {
+                object.position.sub(origin).applyQuaternion(bend).add(origin)
+                object.quaternion.premultiply(bend)
+            }
+            parts.forEach((part, index) => {
+                part.quaternion.premultiply(new THREE.Quaternion().setFromAxisAngle(axis,
+                    Wind.flutterAt(origin.x, origin.z, index) * heights[index]))
+            })
+        }
+
+        /**
+         * Bring every part of a flower to the state of its growth progress, and of its wilting if it is wilting,
+         * bent by the wind
+         * @param {Flower} flower - the flower object
+         * @impure
+         */
+        export function pose(flower: model.Flower): void {
+            const definition: species.Species = species.get(flower.traits.species)
+            const ticks: number = flower.progress * definition.growth.duration * ticksPerSecond
+            const origin: THREE.Vector3 = flower.stem.position
+            const curve: THREE.CatmullRomCurve3 = stemShaping.curveOf(flower.traits.stemShape)
+            const head: Head = headOf(curve, stemGrowth(definition, ticks), origin)
+            updateStem(flower.stem, definition, flower.traits.stemShape, ticks)
+            updateTorusAndStamens(flower.torus, flower.stamens, definition, head,
+                ticks - stemTicks(definition, definition.growth.torusThreshold))
+            updatePetals(flower.petals, definition, flower.traits.petalWhorls, head,
+                ticks - stemTicks(definition, definition.growth.petalsThreshold), petalOpenness)
+            updateLeaves(flower.leaves, definition, curve, flower.traits.leavesLottery, flower.traits.leafRotations,
+                origin, ticks)
+            if (flower.wilting !== null) {
+                updateWilting(flower, flower.wilting)
+            }
+            updateWind(flower)
+            instancing.update(instancing.partsOf(flower))
+        }
+
+        /**
+         * The single animation loop, which grows the flowers and renders the scene
+         * It sleeps when no flower is growing and the camera is idle
+         */
+        export class Scheduler {
+            private static renderer: THREE.WebGLRenderer | null = null
+            private static scene: THREE.Scene | null = null
+            private static camera: THREE.PerspectiveCamera | null = null
+            private static orbitControls: THREE.OrbitControls | null = null
+            /**
+             * Flowers which are still growing
+             */
+            private static flowers: model.Flower[] = []
+            /**
+             * Flowers posed by the last growth step, see grow()
+             */
+            private static posed: Set<model.Flower> = new Set<model.Flower>()
+            /**
+             * Callbacks waiting for flowers to finish wilting
+             */
+            private static wiltings: {flower: model.Flower, resolve: () => void}[] = []
+            private static frameId: number | null = null
+            private static lastTime: number | null = null
+            /**
+             * Number of holds on growth, see hold()
+             */
+            private static holds = 0
+            /**
+             * Animations other than growth, e.g. the day, each one telling whether it goes on
+             */
+            private static animations: ((seconds: number) => boolean)[] = []
+            /**
+             * Whether the camera moved during the last controls update, e.g. because of damping
+             */
+            private static cameraMoved = false
+
+            /**
+             * Set what to render and start the loop
+             * @param {WebGLRenderer} renderer - renderer
+             * @param {Scene} scene - scene
+             * @param {PerspectiveCamera} camera - camera
+             * @param {OrbitControls} orbitControls - controls of the camera
+             * @impure
+             */
+            static attach(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera,
+                          orbitControls: THREE.OrbitControls): void {
+                this.renderer = renderer
+                this.scene = scene
+                this.camera = camera
+                this.orbitControls = orbitControls
+                orbitControls.addEventListener('change', () => {
+                    this.cameraMoved = true
+                    this.wake()
+                })
+                this.wake()
+            }
+
+            /**
+             * Start growing a flower
+             * @param {Flower} flower - the flower
+             * @impure
+             */
+            static add(flower: model.Flower): void {
+                if (this.flowers.indexOf(flower) === -1) this.flowers.push(flower)
+                this.wake()
+            }
+
+            /**
+             * Start wilting a flower
+             * @param {Flower} flower - the flower
+             * @returns {Promise<void>} resolved once the flower has wilted, or has been taken out of scene meanwhile
+             * @impure
+             */
+            static wilt(flower: model.Flower): Promise<void> {
+                return new Promise<void>(resolve => {
+                    if (flower.wilting === null) flower.wilting = 0
+                    this.wiltings.push({flower: flower, resolve: resolve})
+                    this.add(flower)
+                })
+            }
+
+            /**
+             * Play an animation along with the growth of flowers, until it tells it is over
+             * @param {(seconds: number) => boolean} animation - the animation, given the elapsed time
+             * @impure
+             */
+            static animate(animation: (seconds: number) => boolean): void {
+                if (this.animations.indexOf(animation) === -1) this.animations.push(animation)
+                this.wake()
+            }
+
+            /**
+             * Stop growing flowers along with the time, so that they only grow when stepped, see step()
+             * @impure
+             */
+            static hold(): void {
+                this.holds++
+            }
+
+            /**
+             * Let flowers grow along with the time again, once every hold() has been released
+             * @impure
+             */
+            static release(): void {
+                if (this.holds > 0) this.holds--
+                // the time held doesn't count as growing time
+                this.lastTime = null
+                this.wake()
+            }
+
+            /**
+             * Let the growing flowers grow and the animations play for some time, whatever time it is,
+             * e.g. while growth is held
+             * @param {number} seconds - the time
+             * @impure
+             */
+            static step(seconds: number): void {
+                this.grow(seconds)
+                this.animations = this.animations.filter(animation => animation(seconds))
+            }
+
+            /**
+             * Check whether a flower has been posed by the last growth step, e.g. the one of the current frame,
+             * so that it needs no other pose meanwhile
+             * @param {Flower} flower - the flower
+             * @returns {boolean} result
+             */
+            static isPosed(flower: model.Flower): boolean {
+                return this.posed.has(flower)
+            }
+
+            /**
+             * Get the number of flowers which are still growing
+             * @returns {number} the number
+             */
+            static growing(): number {
+                return this.flowers.length
+            }
+
+            /**
+             * Get the number of draw calls of the last rendered frame
+             * @returns {number} the number
+             */
+            static drawCalls(): number {
+                return this.renderer === null ? 0 : this.renderer.info.render.calls
+            }
+
+            /**
+             * Make sure another frame is rendered
+             * @impure
+             */
+            static wake(): void {
+                if (this.frameId === null) {
+                    this.frameId = requestAnimationFrame(time => this.frame(time))
+                }
+            }
+
+            /**
+             * @param {number} time - timestamp of the frame in milliseconds
+             * @impure
+             */
+            private static frame(time: number): void {
+                this.frameId = null
+                const seconds: number = this.lastTime === null ? 0 : (time - this.lastTime) / 1000
+                this.lastTime = this.holds > 0 ? null : time
+                if (this.holds === 0) this.step(seconds)
+
+                // camera
+                this.cameraMoved = false
+                if (this.orbitControls !== null) this.orbitControls.update()
+
+                // render
+                if (this.renderer !== null && this.scene !== null && this.camera !== null) {
+                    this.renderer.render(this.scene, this.camera)
+                }
+
+                const growing: boolean = this.flowers.length > 0 && !GrowthClock.isPaused()
+                if (((growing || this.animations.length > 0) && this.holds === 0) || this.cameraMoved) {
+                    this.wake()
+                } else {
+                    // sleep, the time spent asleep doesn't count as growing time
+                    this.lastTime = null
+                }
+            }
+
+            /**
+             * Grow, and let flowers which are fully grown, wilted or gone drop out
+             * @param {number} seconds - elapsed time
+             * @impure
+             */
+            private static grow(seconds: number): void {
+                this.posed.clear()
+                this.flowers = this.flowers.filter(flower => {
+                    if (flower.stem.parent !== null) {
+                        GrowthClock.advance(flower, seconds)
+                        pose(flower)
+                        this.posed.add(flower)
+                        if (flower.wilting === null) return flower.progress < 1
+                        if (flower.wilting < 1) return true
+                    }
+                    this.wiltings
+                        .filter(wilting => wilting.flower === flower)
+                        .forEach(wilting => wilting.resolve())
+                    this.wiltings = this.wiltings.filter(wilting => wilting.flower !== flower)
+                    return false
+                })
+            }
+        }
+
+        /**
+         * Initiate the process of updating objects
+         * @param {Flower} flower - the flower object
+         * @impure
+         */
+        export function update(flower: model.Flower): void {
+            Scheduler.add(flower)
+        }
+
+        /**
+         * Initiate the process of rendering the scene
+         * @param {WebGLRenderer} renderer - renderer
+         * @param {Scene} scene - scene
+         * @param {PerspectiveCamera} camera - camera
+         * @param {OrbitControls} orbitControls - controls of the camera
+         * @impure
+         */
+        export function render(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera,
+                               orbitControls: THREE.OrbitControls): void {
+            Scheduler.attach(renderer, scene, camera, orbitControls)
+        }
+    }
+
+    /**
+     * Capture of pictures and videos of the scene
+     */
+    namespace capturing {
+        /**
+         * Largest side of the tiles a picture is rendered in, pictures larger than that being rendered tile by tile
+         */
+        const maxTileSize = 2048
+
+        export interface TurntableOptions {
+            /**
+             * Number of frames, 120 by default
+             */
+            frames?: number
+            /**
+             * Frames per second, 30 by default
+             */
+            fps?: number
+            /**
+             * Turns of the camera around the target of the controls, 1 by default
+             */
+            turns?: number
+            /**
+             * Width of the pictures, the one of the canvas by default; videos always have the size of the canvas
+             */
+            width?: number
+            /**
+             * Height of the pictures, the one of the canvas by default
+             */
+            height?: number
+            /**
+             * Whether the flowers grow, and the day goes on if it does, while the camera turns, 1 / fps seconds
+             * each frame, so that the same garden is always captured the same, false by default
+             */
+            growth?: boolean
+        }
+
+        /**
+         * Render the scene to a PNG picture, of any size
+         * @param {WebGLRenderer} renderer - renderer
+         * @param {Scene} scene - scene
+         * @param {PerspectiveCamera} camera - camera, whose view is kept whatever the proportions of the picture
+         * @param {number} width - width of the picture in pixels
+         * @param {number} height - height of the picture in pixels
+         * @returns {Promise<Blob>} the picture in Promise
+         */
+        export function picture(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera,
+                                width: number, height: number): Promise<Blob> {
+            width = Math.round(width)
+            height = Math.round(height)
+            if (!(width >= 1 && height >= 1)) throw new error.IllegalArgumentError('Invalid picture size')
+            const canvas: HTMLCanvasElement = document.createElement('canvas')
+            canvas.width = width
+            canvas.height = height
+            const context: CanvasRenderingContext2D | null = canvas.getContext('2d')
+            if (context === null) throw new error.IllegalStateError('Canvas 2D is not supported')
+            const tileSize: number = Math.min(maxTileSize, renderer.capabilities.maxTextureSize)
+            const target = new THREE.WebGLRenderTarget(1, 1)
+            const aspect: number = camera.aspect
+            camera.aspect = width / height
+            try {
+                for (let y = 0; y < height; y += tileSize) {
+                    for (let x = 0; x < width; x += tileSize) {
+                        const tileWidth: number = Math.min(tileSize, width - x)
+                        const tileHeight: number = Math.min(tileSize, height - y)
+                        camera.setViewOffset(width, height, x, y, tileWidth, tileHeight)
+                        target.setSize(tileWidth, tileHeight)
+                        renderer.render(scene, camera, target, true)
+                        const pixels = new Uint8Array(tileWidth * tileHeight * 4)
+                        renderer.readRenderTargetPixels(target, 0, 0, tileWidth, tileHeight, pixels)
+                        // rows of WebGL go upwards, the ones of images downwards
+                        const image: ImageData = context.createImageData(tileWidth, tileHeight)
+                        const rowLength: number = tileWidth * 4
+                        for (let row = 0; row < tileHeight; row++) {
+                            const start: number = (tileHeight - 1 - row) * rowLength
+                            image.data.set(pixels.subarray(start, start + rowLength), row * rowLength)
+                        }
+                        context.putImageData(image, x, y)
+                    }
+                }
+            } finally {
+                camera.clearViewOffset()
+                camera.aspect = aspect
+                camera.updateProjectionMatrix()
+                target.dispose()
+            }
+            return new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => {
+                if (blob === null) reject(new error.IllegalStateError('Picture could not be encoded'))
+                else resolve(blob)
+            }, 'image/png'))
+        }
+
+        /**
+         * Turn the camera around the target of its controls, frame by frame, bringing it back afterwards
+         * Flowers only grow with the frames meanwhile, see TurntableOptions.growth
+         * @param {PerspectiveCamera} camera - camera
+         * @param {OrbitControls} orbitControls - controls of the camera
+         * @param {TurntableOptions} options - options
+         * @param {(index: number) => Promise<void>} onFrame - capture of a frame, once the camera is in place
+         * @returns {Promise<void>} resolved once every frame is captured
+         * @impure
+         */
+        async function turn(camera: THREE.PerspectiveCamera, orbitControls: THREE.OrbitControls, options: TurntableOptions,
+                            onFrame: (index: number) => Promise<void>): Promise<void> {
+            const frames: number = options.frames === undefined ? 120 : options.frames
+            const fps: number = options.fps === undefined ? 30 : options.fps
+            const turns: number = options.turns === undefined ? 1 : options.turns
+            if (!(frames >= 1) || !(fps > 0)) throw new error.IllegalArgumentError('Invalid turntable options')
+            const target: THREE.Vector3 = orbitControls.target.clone()
+            const start: THREE.Vector3 = camera.position.clone()
+            const offset: THREE.Vector3 = start.clone().sub(target)
+            const axis = new THREE.Vector3(0, 1, 0)
+            rendering.Scheduler.hold()
+            try {
+                for (let i = 0; i < frames; i++) {
+                    if (options.growth && i > 0) rendering.Scheduler.step(1 / fps)
+                    camera.position.copy(offset).applyAxisAngle(axis, 2 * Math.PI * turns * i / frames).add(target)
+                    camera.lookAt(target)
+                    await onFrame(i)
+                }
+            } finally {
+                camera.position.copy(start)
+                camera.lookAt(target)
+                rendering.Scheduler.release()
+            }
+        }
+
+        /**
+         * Capture PNG pictures of the scene while the camera turns around
+         * @param {WebGLRenderer} renderer - renderer
+         * @param {Scene} scene - scene
+         * @param {PerspectiveCamera} camera - camera
+         * @param {OrbitControls} orbitControls - controls of the camera
+         * @param {TurntableOptions} options - options
+         * @returns {Promise<Blob[]>} the pictures in Promise
+         * @impure
+         */
+        export async function turntablePictures(renderer: THREE.WebGLRenderer, scene: THREE.Scene,
+                                                camera: THREE.PerspectiveCamera, orbitControls: THREE.OrbitControls,
+                                                options: TurntableOptions = {}): Promise<Blob[]> {
+            const size: {width: number, height: number} = renderer.getSize()
+            const width: number = options.width === undefined ? size.width * renderer.getPixelRatio() : options.width
+            const height: number = options.height === undefined ? size.height * renderer.getPixelRatio() : options.height
+            const pictures: Blob[] = []
+            await turn(camera, orbitControls, options, async () => {
+                pictures.push(await picture(renderer, scene, camera, width, height))
+            })
+            return pictures
+        }
+
+        /**
+         * Record a WebM video of the scene while the camera turns around, in real time
+         * @param {WebGLRenderer} renderer - renderer
+         * @param {Scene} scene - scene
+         * @param {PerspectiveCamera} camera - camera
+         * @param {OrbitControls} orbitControls - controls of the camera
+         * @param {TurntableOptions} options - options
+         * @returns {Promise<Blob>} the video in Promise
+         * @impure
+         */
+        export async function turntableVideo(renderer: THREE.WebGLRenderer, scene: THREE.Scene,
+                                             camera: THREE.PerspectiveCamera, orbitControls: THREE.OrbitControls,
+                                             options: TurntableOptions = {}): Promise<Blob> {
+            const recorder: dom.CanvasRecorder | null = dom.recordCanvas(<HTMLCanvasElement>renderer.domElement)
+            if (recorder === null) throw new error.IllegalStateError('Videos cannot be recorded in this browser')
+            const fps: number = options.fps === undefined ? 30 : options.fps
+            try {
+                await turn(camera, orbitControls, options, async () => {
+                    renderer.render(scene, camera)
+                    recorder.requestFrame()
+                    // the video is timed by the clock
+                    await new Promise<void>(resolve => setTimeout(resolve, 1000 / fps))
+                })
+            } finally {
+                // the loop of the scheduler may not render the camera back in place
+                renderer.render(scene, camera)
+            }
+            return recorder.stop()
+        }
+    }
+
+    /**
+     * Scene of the running app, null until initialized
+     */
+    let currentScene: THREE.Scene | null = null
+
+    /**
+     * Land of the running app, null until loaded
+     */
+    let currentLand: THREE.Group | null = null
+
+    /**
+     * Renderer, camera and camera controls of the running app, null until initialized
+     */
+    let currentView: {renderer: THREE.WebGLRenderer, camera: THREE.PerspectiveCamera,
+                      orbitControls: THREE.OrbitControls} | null = null
+
+    /**
+     * Lights of the running app, null until initialized
+     */
+    let currentLights: lighting.Lights | null = null
+
+    /**
+     * Sky of the running app, null until initialized
+     */
+    let currentDome: sky.Dome | null = null
+
+    /**
+     * Species of the flowers generated on keypress
+     */
+    let currentSpecies: string = species.defaultName
+
+    /**
+     * Whether the stamens, petals and leaves of flowers are drawn in batches, see instancing
+     */
+    let instanced = true
+
+    /**
+     * Choose the species of the flowers generated from now on
+     * @param {string} name - name of a registered species
+     * @impure
+     */
+    export function selectSpecies(name: string): void {
+        species.get(name) // ensure it is registered
+        currentSpecies = name
+    }
+
+    /**
+     * Add a flower to the scene and start growing it
+     * @param {Scene} scene - scene
+     * @param {Flower} flower - the flower
+     * @impure
+     */
+    function plant(scene: THREE.Scene, flower: model.Flower): void {
+        // add to scene
+        threeEx.SceneHelper.of(scene).add(flower)
+        lighting.castShadows(flower.all())
+        if (instanced) instancing.add(scene, instancing.partsOf(flower))
+        // update flower on screen
+        rendering.update(flower)
+    }
+
+    /**
+     * Generate a flower of the selected species at a position, and plant it
+     * @param {number} x - x of the position
+     * @param {number} z - z of the position
+     * @returns {Promise<Flower | null>} the flower in Promise, or null if the position is not free
+     * @impure
+     */
+    export async function plantAt(x: number, z: number): Promise<model.Flower | null> {
+        if (currentScene === null) throw new error.IllegalStateError('App is not initialized')
+        const scene: THREE.Scene = currentScene
+        const flower: model.Flower | null = await objectGenerating.FlowersGenerator.nextAt(x, z, currentSpecies)
+        if (flower !== null) plant(scene, flower)
+        return flower
+    }
+
+    /**
+     * Breed a new flower from two flowers of the garden, and plant it near the mother
+     * The offspring is of the species of the mother, with genes of both parents and a few mutations,
+     * see genetics
+     * @param {Flower} mother - the parent bearing the seed
+     * @param {Flower} father - the parent giving the pollen, the mother herself for a self-pollinated flower
+     * @returns {Promise<Flower | null>} the flower in Promise, or null if there is no room near the mother
+     * @impure
+     */
+    export async function pollinate(mother: model.Flower, father: model.Flower): Promise<model.Flower | null> {
+        if (currentScene === null) throw new error.IllegalStateError('App is not initialized')
+        const scene: THREE.Scene = currentScene
+        const flower: model.Flower | null = await objectGenerating.FlowersGenerator.nextOffspring(mother, father)
+        if (flower !== null) plant(scene, flower)
+        return flower
+    }
+
+    /**
+     * Take flowers out of the scene and free what they used
+     * @param {Scene} scene - scene
+     * @param {Flower[]} flowers - the flowers
+     * @impure
+     */
+    function unplant(scene: THREE.Scene, flowers: model.Flower[]): void {
+        const objects: THREE.Object3D[] = []
+        flowers.forEach(flower => flower.all().forEach(object => objects.push(object)))
+        flowers.forEach(flower => instancing.remove(instancing.partsOf(flower)))
+        objects.forEach(object => scene.remove(object))
+        objectLoading.AssetManager.dispose(objects)
+        rendering.Scheduler.wake()
+    }
+
+    /**
+     * Remove a flower from the garden
+     * @param {Flower} flower - the flower
+     * @param {boolean} wilt - whether to let the flower wilt before
+     * @returns {Promise<void>} resolved once the flower is removed
+     * @impure
+     */
+    export async function removeFlower(flower: model.Flower, wilt = true): Promise<void> {
+        if (currentScene === null) throw new error.IllegalStateError('App is not initialized')
+        const scene: THREE.Scene = currentScene
+        if (wilt) await rendering.Scheduler.wilt(flower)
+        // the flower may have been removed meanwhile, and its assets must not be disposed twice
+        if (!objectGenerating.FlowersGenerator.remove(flower)) return
+        unplant(scene, [flower])
+    }
+
+    /**
+     * Remove every flower from the garden, except the flowers wilting, which are removed once they have wilted
+     * @param {boolean} wilt - whether to let the flowers wilt before
+     * @returns {Promise<void>} resolved once the flowers are removed
+     * @impure
+     */
+    export async function clearGarden(wilt = false): Promise<void> {
+        await Promise.all(objectGenerating.FlowersGenerator.all()
+            .filter(flower => flower.wilting === null)
+            .map(flower => removeFlower(flower, wilt)))
+    }
+
+    /**
+     * Get the flowers in the garden
+     * @returns {Flower[]} the flowers
+     */
+    export function flowers(): model.Flower[] {
+        return objectGenerating.FlowersGenerator.all()
+    }
+
+    /**
+     * Stop the growth of all flowers
+     * @impure
+     */
+    export function pauseGrowth(): void {
+        rendering.GrowthClock.pause()
+    }
+
+    /**
+     * Continue the growth of all flowers
+     * @impure
+     */
+    export function resumeGrowth(): void {
+        rendering.GrowthClock.resume()
+    }
+
+    /**
+     * Set how fast all flowers grow
+     * @param {number} speed - multiplier of the normal speed, e.g. 2 for twice as fast
+     * @impure
+     */
+    export function setGrowthSpeed(speed: number): void {
+        rendering.GrowthClock.setSpeed(speed)
+    }
+
+    /**
+     * Bring all flowers to the same growth progress
+     * @param {number} progress - growth progress in [0, 1]
+     * @impure
+     */
+    export function scrubGrowth(progress: number): void {
+        if (progress < 0 || progress > 1) throw new error.IllegalArgumentError('Invalid growth progress')
+        objectGenerating.FlowersGenerator.all().forEach(flower => {
+            flower.progress = progress
+            rendering.pose(flower)
+            // flowers which are not fully grown any more have to keep growing
+            if (progress < 1) rendering.update(flower)
+        })
+        rendering.Scheduler.wake()
+    }
+
+    /**
+     * Draw the stamens, petals and leaves of all flowers in batches, or each one on its own
+     * @param {boolean} enabled - whether to draw them in batches
+     * @impure
+     */
+    export function setInstancing(enabled: boolean): void {
+        if (currentScene === null) throw new error.IllegalStateError('App is not initialized')
+        const scene: THREE.Scene = currentScene
+        instanced = enabled
+        objectGenerating.FlowersGenerator.all().forEach(flower => {
+            if (enabled) instancing.add(scene, instancing.partsOf(flower))
+            else instancing.remove(instancing.partsOf(flower))
+        })
+        rendering.Scheduler.wake()
+    }
+
+    /**
+     * Get the number of draw calls of the last rendered frame, e.g. to compare the costs of rendering paths
+     * @returns {number} the number
+     */
+    export function drawCalls(): number {
+        return rendering.Scheduler.drawCalls()
+    }
+
+    /**
+     * Get the names of the lighting rigs, e.g. day or night
+     * @returns {string[]} the names
+     */
+    export function lightingRigs(): string[] {
+        return lighting.names()
+    }
 
-        /**
-         * Load petals objects
-         * @returns {Promise<Group[]>} petals objects in Promise
-         */
-        export async function loadPetals(): Promise<THREE.Group[]> {
-            const modelUrl = util.randomlyPick(['petal0.obj', 'petal1.obj', 'petal2.obj', 'petal3.obj', 'petal4.obj'].map(x => 'models/' + x))
-            const textureUrl = util.randomlyPick(['petal0.jpg', 'petal1.jpg', 'petal2.jpg', 'petal3.png', 'petal4.jpg', 'petal5.jpg'].map(x => 'models/' + x))
-            const petalName = 'petal_' + modelUrl + textureUrl
-            if (cache[petalName] === undefined) {
-                cache[petalName] = await loadObject(modelUrl, textureUrl)
-            }
-            const basicGroupHelper =
-                threeEx.GroupHelper.of(cache[petalName])
-                    .clone()
-                    .scale(0.1, 0.1, 0.1)
-                    .positioning(1, 25, -1)
-                    .hide()
-            // randomly generate 4/5/6/7 petals
-            const rotations = util.randomlyPick([[
-                [1.5, 0, 0],
-                [1.7, Math.PI / 2, -0.6],
-                [-0.1, Math.PI, 0.6],
-                [-0.1, (Math.PI / 2) * 3, 0],
-            ], [
-                [1.5, 0, 0],
-                [1.7, (Math.PI / 5) * 2, -0.6],
-                [-0.1, (Math.PI / 5) * 4, 0.6],
-                [-0.1, (Math.PI / 5) * 6, 0],
-                [-0.9, (Math.PI / 5) * 8, -2],
-            ], [
-                [1.5, 0, 0],
-                [1.7, (Math.PI / 3), -0.6],
-                [-0.7, (Math.PI / 3) * 2, 0.6],
-                [-0.1, (Math.PI / 3) * 3, 0],
-                [-0.9, (Math.PI / 3) * 4, -2],
-                [1.7, (Math.PI / 3) * 5, 1.5],
-            ],[
-                [1.5, 0, 0],
-                [1.7, (Math.PI / 7) * 2, -0.6],
-                [-0.7, (Math.PI / 7) * 4, 0.6],
-                [-0.1, (Math.PI / 7) * 6, 0],
-                [-0.1, (Math.PI / 7) * 8, 0],
-                [1.7, (Math.PI / 7) * 10, 1.5],
-                [1.7, (Math.PI / 7) * 12, 0],
-            ]])
-            const petals: THREE.Group[] = []
-            for (const rotation of rotations) {
-                petals.push(
-                    basicGroupHelper
-                        .clone()
-                        .rotate(rotation[0], rotation[1], rotation[2])
-                        .collect()
-                )
-            }
-            return petals
+    /**
+     * Set the lights and sky as a rig tells
+     * @param {Rig} rig - the rig
+     * @impure
+     */
+    function applyRig(rig: lighting.Rig): void {
+        if (currentScene === null || currentView === null || currentLights === null || currentDome === null) {
+            throw new error.IllegalStateError('App is not initialized')
         }
+        currentLights.apply(rig, currentView.renderer, currentScene)
+        currentDome.apply(rig)
+        rendering.Scheduler.wake()
+    }
 
-        /**
-         * Load leaves objects
-         * @returns {Promise<Group[]>} leaves objects in Promise
-         */
-        export async function loadLeaves(): Promise<THREE.Group[]> {
-            const modelUrl = 'models/leaf.obj'
-            const textureUrl = 'models/stem.jpg'
-            const leafName = 'leaf_' + modelUrl + textureUrl
-            if (cache[leafName] === undefined) {
-                cache[leafName] = await loadObject(modelUrl, textureUrl)
-            }
-            const basicGroupHelper =
-                threeEx.GroupHelper.of(cache[leafName])
-                    .clone()
-                    .scale(0.1, 0.1, 0.1)
-                    .hide()
-            const getXRandomRotation = () => Math.PI * util.random(-0.5, 0.5)
-            const getYRandomRotation = () => Math.PI * util.random(-1, 1)
-            return [
-                basicGroupHelper
-                    .clone()
-                    .positioning(0.5, 5, 0.5)
-                    .rotateX(getXRandomRotation())
-                    .rotateY(getYRandomRotation())
-                    .collect(),
-                basicGroupHelper
-                    .clone()
-                    .positioning(0.5, 7, -0.25)
-                    .rotateX(getXRandomRotation())
-                    .rotateY(getYRandomRotation())
-                    .collect(),
-                basicGroupHelper
-                    .clone()
-                    .positioning(0.5, 10, -0.5)
-                    .rotateX(getXRandomRotation())
-                    .rotateY(getYRandomRotation())
-                    .collect(),
-                basicGroupHelper
-                    .clone()
-                    .positioning(0.5, 15, -1.75)
-                    .rotateX(getXRandomRotation())
-                    .rotateY(getYRandomRotation())
-                    .collect(),
-                basicGroupHelper
-                    .clone()
-                    .positioning(0.75, 19, -2.75)
-                    .rotateX(getXRandomRotation())
-                    .rotateY(getYRandomRotation())
-                    .collect(),
-                basicGroupHelper
-                    .clone()
-                    .positioning(0.5, 23, -3.5)
-                    .rotateX(getXRandomRotation())
-                    .rotateY(getYRandomRotation())
-                    .collect(),
-            ]
+    /**
+     * Let petals open as far as they may
+     * @param {number} openness - openness in [0, 1], 0 for closed
+     * @impure
+     */
+    function openPetals(openness: number): void {
+        if (rendering.setPetalOpenness(openness)) {
+            objectGenerating.FlowersGenerator.all().forEach(flower => rendering.pose(flower))
         }
+    }
 
+    /**
+     * Light the scene with a rig, stopping the day cycle
+     * @param {string} name - name of the rig, see lightingRigs()
+     * @impure
+     */
+    export function setLighting(name: string): void {
+        const rig: lighting.Rig = lighting.get(name)
+        sky.DayClock.stop()
+        applyRig(rig)
+        openPetals(1)
     }
 
     /**
-     * Object generating utils
+     * Show the time of the day clock: the sun, sky and lights, and how far petals open
+     * @impure
      */
-    namespace objectGenerating {
-        export class FlowersGenerator {
-            private static generatedFlowers: model.Flower[] = []
+    function showTimeOfDay(): void {
+        const hour: number = sky.DayClock.getHour()
+        applyRig(sky.rigAt(hour))
+        openPetals(sky.petalOpennessAt(hour))
+    }
 
-            static reset(): void {
-                this.generatedFlowers = []
-            }
+    /**
+     * Animation of the day, see rendering.Scheduler.animate()
+     * @param {number} seconds - elapsed time
+     * @returns {boolean} whether the day goes on
+     * @impure
+     */
+    function dayCycle(seconds: number): boolean {
+        sky.DayClock.advance(seconds)
+        showTimeOfDay()
+        return sky.DayClock.isRunning()
+    }
 
-            static async next(): Promise<model.Flower> {
-                const flower: model.Flower =
-                    model.Flower.of(
-                        await objectLoading.loadStem(),
-                        await objectLoading.loadTorus(),
-                        await objectLoading.loadStamens(),
-                        await objectLoading.loadPetals(),
-                        await objectLoading.loadLeaves()
-                    )
-                if (this.generatedFlowers.length === 0) {
-                    this.generatedFlowers.push(flower) // initial flower should be at the original position
-                } else {
-                    const restrictedAreas: number[][][] =
-                        this.generatedFlowers.map(flower => flower.getProjectionArea())
-                    for (const area of constant.flower.restrictedAreas) {
-                        restrictedAreas.push(area)
-                    }
-                    constant.flower.restrictedAreas.forEach(area => restrictedAreas.push(area))
-                    this.generatedFlowers.push(flower.moveRandomly(restrictedAreas))
-                }
-                return <model.Flower> util.tail(this.generatedFlowers)
-            }
-        }
+    /**
+     * Animation of the wind, see rendering.Scheduler.animate()
+     * @param {number} seconds - elapsed time
+     * @returns {boolean} whether the wind still blows
+     * @impure
+     */
+    function blow(seconds: number): boolean {
+        rendering.Wind.advance(seconds)
+        // posed once more after the wind drops, so the flowers stand straight again
+        // the growing flowers have just been posed with the wind by their growth
+        objectGenerating.FlowersGenerator.all()
+            .filter(flower => !rendering.Scheduler.isPosed(flower))
+            .forEach(flower => rendering.pose(flower))
+        return rendering.Wind.isBlowing()
     }
 
     /**
-     * Rendering utils
+     * Get the settings of the wind
+     * @returns {WindSettings} the settings
      */
-    namespace rendering {
+    export function wind(): rendering.WindSettings {
+        return rendering.Wind.getSettings()
+    }
 
-        /**
-         * Used to check whether it's necessary to repaint the objects in scene
-         */
-        class ValidityChecker {
-            private constructor(private flower: model.Flower) {
-                this.stamensLottery =
-                    util.boundedRandomBooleanArray(
-                        this.flower.stamens.length, constant.flower.numberOf.stamen.min, constant.flower.numberOf.stamen.max
-                    )
-                this.leavesLottery =
-                    util.boundedRandomBooleanArray(
-                        this.flower.leaves.length, constant.flower.numberOf.leaf.min, constant.flower.numberOf.leaf.max
-                    )
-            }
-            static of(flower: model.Flower): ValidityChecker {
-                return new ValidityChecker(flower)
-            }
+    /**
+     * Change the wind, e.g. control.setWind({strength: 0.1}) for a breeze and control.setWind({strength: 0}) to stop it
+     * @param {{direction?: number, strength?: number, gustiness?: number, flutter?: number}} settings - the settings
+     * to change, see WindSettings
+     * @impure
+     */
+    export function setWind(settings: {direction?: number, strength?: number, gustiness?: number, flutter?: number}): void {
+        const current: rendering.WindSettings = rendering.Wind.getSettings()
+        rendering.Wind.setSettings({
+            direction: settings.direction === undefined ? current.direction : settings.direction,
+            strength: settings.strength === undefined ? current.strength : settings.strength,
+            gustiness: settings.gustiness === undefined ? current.gustiness : settings.gustiness,
+            flutter: settings.flutter === undefined ? current.flutter : settings.flutter
+        })
+        rendering.Scheduler.animate(blow)
+    }
 
-            /**
-             * Indicate whether each stamen will be shown
-             */
-            private readonly stamensLottery: boolean[]
-            /**
-             * Indicate whether each leaf will be shown
-             */
-            private readonly leavesLottery: boolean[]
+    /**
+     * Get the time of day
+     * @returns {number} the hour, in [0, 24)
+     */
+    export function timeOfDay(): number {
+        return sky.DayClock.getHour()
+    }
 
-            stemInvalidated(): boolean {
-                return this.flower.stem.scale.y <= 1
-            }
+    /**
+     * Bring the sun, sky and flowers to a time of day
+     * @param {number} hour - the hour, in [0, 24], e.g. 18.5 for half past six in the evening
+     * @impure
+     */
+    export function setTimeOfDay(hour: number): void {
+        sky.DayClock.setHour(hour)
+        showTimeOfDay()
+    }
 
-            torusInvalidated(): boolean {
-                return this.flower.stem.scale.y >= 0.7
-            }
+    /**
+     * Let the day go on by itself, from the time of day
+     * @param {number} dayLength - seconds a whole day lasts
+     * @impure
+     */
+    export function playDayCycle(dayLength = 120): void {
+        sky.DayClock.start(dayLength)
+        showTimeOfDay()
+        rendering.Scheduler.animate(dayCycle)
+    }
 
-            stamensInvalidated(): boolean[] {
-                if (this.torusInvalidated()) {
-                    return this.stamensLottery
-                } else {
-                    return util.fillArray(Array(this.flower.stamens.length), false) // all false
-                }
-            }
+    /**
+     * Stop the day at the time it is
+     * @impure
+     */
+    export function pauseDayCycle(): void {
+        sky.DayClock.stop()
+    }
 
-            petalsInvalidated(): boolean {
-                return this.flower.stem.scale.y >= 0.61 && this.flower.petals[0].position.y <= 41
-            }
+    /**
+     * Describe the exclusion polygons, e.g. after editing them in debug mode, so they can be pasted into the code
+     * @returns {string} the polygons, as written in constant.flower.restrictedAreas
+     */
+    export function exportRestrictedAreas(): string {
+        return exclusion.describePolygons()
+    }
 
-            leavesInvalidities(): boolean[] {
-                return util.andBooleanArrays(this.leavesLottery, [
-                    this.flower.stem.scale.y >= 0.3 && this.flower.leaves[0].position.y <= 10,
-                    this.flower.stem.scale.y >= 0.4 && this.flower.leaves[1].position.y <= 15,
-                    this.flower.stem.scale.y >= 0.45 && this.flower.leaves[2].position.y <= 20,
-                    this.flower.stem.scale.y >= 0.52 && this.flower.leaves[3].position.y <= 24,
-                    this.flower.stem.scale.y >= 0.55 && this.flower.leaves[4].position.y <= 27,
-                    this.flower.stem.scale.y >= 0.6 && this.flower.leaves[5].position.y <= 31,
-                ])
-            }
-        }
+    /**
+     * Exclude the land under the dark pixels of a grayscale image, which is laid over the whole land
+     * @param {string} url - Url of the image
+     * @param {number} threshold - pixels of lower luminance, in [0, 255], are excluding
+     * @returns {Promise<void>} nothing
+     * @impure
+     */
+    export async function loadExclusionMask(url: string, threshold?: number): Promise<void> {
+        const bounds: {xMin: number, xMax: number, zMin: number, zMax: number} | null = terrain.bounds()
+        if (bounds === null) throw new error.IllegalStateError('Land is not loaded')
+        exclusion.setMask(await exclusion.loadMask(url, bounds, threshold))
+    }
 
-        /**
-         * Update stem object
-         * @param {Group} stem - stem object
-         * @impure
-         */
-        function updateStem(stem: THREE.Group): void {
-            if (stem.scale.y <= 1) {
-                stem.scale.y += 0.001
-            }
-            if (stem.scale.z <= 1) {
-                stem.scale.z += 0.005
-            }
-        }
+    /**
+     * Stop excluding land with a mask
+     * @impure
+     */
+    export function clearExclusionMask(): void {
+        exclusion.setMask(null)
+    }
 
-        /**
-         * Update torus object and stamen objects
-         * @param {Group} torus - torus object
-         * @param {Group[]} stamens - stamen objects
-         * @param {boolean} torusInvalidated - the invalidity of torus
-         * @param {boolean[]} stamenInvalidities - the invalidity of each stamen
-         * @impure
-         */
-        function updateTorusAndStamens(torus: THREE.Group, stamens: THREE.Group[],
-                                       torusInvalidated: boolean, stamenInvalidities: boolean[]): void {
-            if (torusInvalidated) {
-                torus.visible = true
-                if (torus.scale.x <= 0.1) {
-                    torus.scale.x += 0.00035
-                    torus.scale.y += 0.00025
-                    torus.scale.z += 0.00035
-                }
-                if (torus.position.y <= 41.5) {
-                    torus.position.y += 0.04
-                }
-            }
-            const firstInvalidatedStamen: THREE.Group | null =
-                util.first(stamens, (item: THREE.Group, index: number) => stamenInvalidities[index])
-            if (firstInvalidatedStamen !== null
-                && (firstInvalidatedStamen.scale.x <= 0.12 || torus.position.y <= 41.5)) {
-                for (let i = 0; i < stamens.length; i++) {
-                    const stamen: THREE.Group = stamens[i]
-                    const invalidated: boolean = stamenInvalidities[i]
-                    if (invalidated) {
-                        stamen.visible = true
-                        if (firstInvalidatedStamen.scale.x <= 0.12) {
-                            stamen.scale.x += 0.0003
-                            stamen.scale.y += 0.0003
-                            stamen.scale.z += 0.0003
-                        }
-                        if (torus.position.y <= 41.5) {
-                            stamen.position.y += 0.04
-                        }
-                    }
-                }
-            }
-        }
+    /**
+     * Describe the garden on screen
+     * @returns {GardenData} the garden
+     */
+    export function exportGarden(): persistence.GardenData {
+        return objectGenerating.FlowersGenerator.export()
+    }
 
-        /**
-         * Update petal objects
-         * @param {Group[]} petals - petal objects
-         * @impure
-         */
-        function updatePetals(petals: THREE.Group[]): void {
-            for (const petal of petals) {
-                petal.visible = true
-            }
-            if (petals[0].position.y <= 41) {
-                for (const petal of petals) {
-                    petal.position.y += 0.042
-                }
-            }
-            if (petals[0].scale.x <= 1) {
-                for (const petal of petals) {
-                    petal.scale.x += 0.004
-                    petal.scale.y += 0.004
-                    petal.scale.z += 0.004
-                }
-            }
+    /**
+     * Replace the garden on screen
+     * @param {GardenData} garden - the garden
+     * @returns {Promise<void>} nothing
+     * @impure
+     */
+    export async function importGarden(garden: persistence.GardenData): Promise<void> {
+        if (currentScene === null) throw new error.IllegalStateError('App is not initialized')
+        const scene: THREE.Scene = currentScene
+        const flowers: {restored: model.Flower[], replaced: model.Flower[]} =
+            await objectGenerating.FlowersGenerator.restore(garden)
+        // plant first, so that the batches shared with the previous flowers are kept
+        flowers.restored.forEach(flower => plant(scene, flower))
+        unplant(scene, flowers.replaced)
+    }
 
-            // petal 0
-            if(petals[0].rotation.x >= 0.7)
-                petals[0].rotation.x -= 0.003
-            // petal 1
-            if(petals[1].rotation.x >= 0.7)
-                petals[1].rotation.x -= 0.003
-            if(petals[1].rotation.z <=0)
-                petals[1].rotation.z += 0.003
-            // petal 2
-            if(petals[2].rotation.x <= 0.7)
-                petals[2].rotation.x += 0.005
-            if(petals[2].rotation.z >= 0)
-                petals[2].rotation.z -= 0.006
-            // petal 3
-            if(petals[3].rotation.x <= 0.7)
-                petals[3].rotation.x += 0.003
-            if (petals.length >= 5) {
-                // petal 4
-                if (petals[4].rotation.x <= 0.7)
-                    petals[4].rotation.x += 0.005
-                if (petals[4].rotation.z <= 0)
-                    petals[4].rotation.z += 0.0065
-                if (petals.length >= 6) {
-                    // petal 5
-                    if (petals[5].rotation.x >= 0.7)
-                        petals[5].rotation.x -= 0.005
-                    if (petals[5].rotation.z >= 0)
-                        petals[5].rotation.z -= 0.0065
-                }
-                if (petals.length >= 7) {
-                    // petal 6
-                    if (petals[6].rotation.x >= 0.7)
-                        petals[6].rotation.x -= 0.005
-                    if (petals[6].rotation.z >= 0)
-                        petals[6].rotation.z -= 0.0065
-                }
-            }
-        }
+    /**
+     * Save the garden on screen to localStorage
+     * @param {string} key - localStorage key
+     * @impure
+     */
+    export function saveGarden(key = persistence.storageKey): void {
+        persistence.saveToStorage(exportGarden(), key)
+    }
 
-        /**
-         * Update leaf objects
-         * @param {Group[]} leaves - leaf objects
-         * @param {boolean[]} invalidities - the invalidity of each leaf
-         * @impure
-         */
-        function updateLeaves(leaves: THREE.Group[], invalidities: boolean[]): void {
-            for (let i = 0; i < leaves.length; i++) {
-                const leaf: THREE.Group = leaves[i]
-                const invalidated: boolean = invalidities[i]
-                if (invalidated) {
-                    // show
-                    leaf.visible = true
-                    // positioning
-                    leaf.position.y += 0.015
-                    // scale
-                    if (leaf.scale.x <= 1) {
-                        leaf.scale.x += 0.004
-                        leaf.scale.y += 0.004
-                        leaf.scale.z += 0.002
-                    }
-                    // rotate
-                    if (leaf.rotation.x <= util.random(-Math.PI * 0.2,-0.0015)) { // rotate positively
-                        leaf.rotation.x += 0.0015
-                    } else if (leaf.rotation.x >= util.random(0.0015, Math.PI * 0.2)) { // rotate negatively
-                        leaf.rotation.x -= 0.0015
-                    }
-                }
-            }
-        }
+    /**
+     * Replace the garden on screen with the one saved in localStorage
+     * @param {string} key - localStorage key
+     * @returns {Promise<boolean>} false if nothing has been saved
+     * @impure
+     */
+    export async function loadGarden(key = persistence.storageKey): Promise<boolean> {
+        const garden: persistence.GardenData | null = persistence.loadFromStorage(key)
+        if (garden === null) return false
+        await importGarden(garden)
+        return true
+    }
 
-        /**
-         * Initiate the process of updating objects
-         * @param {Flower} flower - the flower object
-         * @impure
-         */
-        export function update(flower: model.Flower): void {
-            const checker: ValidityChecker = ValidityChecker.of(flower);
+    /**
+     * Let the browser download the garden on screen as a file
+     * @param {string} filename - name of the file
+     * @impure
+     */
+    export function downloadGarden(filename?: string): void {
+        persistence.download(exportGarden(), filename)
+    }
 
-            (function frame () {
-                // stem
-                if (checker.stemInvalidated()) {
-                    updateStem(flower.stem)
-                }
-                // torus and stamens
-                updateTorusAndStamens(flower.torus, flower.stamens,
-                    checker.torusInvalidated(), checker.stamensInvalidated())
-                // petals
-                if (checker.petalsInvalidated()) {
-                    updatePetals(flower.petals)
-                }
-                // leaves
-                updateLeaves(flower.leaves, checker.leavesInvalidities())
-                requestAnimationFrame(frame)
-            })()
-        }
+    /**
+     * Export the land and flowers on screen as a .glb file, growth and transforms being kept as they are now
+     * @returns {Promise<ArrayBuffer>} content of the file in Promise
+     */
+    export function exportGltf(): Promise<ArrayBuffer> {
+        if (currentLand === null) throw new error.IllegalStateError('Land is not loaded')
+        return exporting.toGlb(exporting.sceneOf(currentLand, objectGenerating.FlowersGenerator.all()))
+    }
 
-        /**
-         * Initiate the process of rendering the scene
-         * @param {WebGLRenderer} renderer - renderer
-         * @param {Scene} scene - scene
-         * @param {PerspectiveCamera} camera - camera
-         * @impure
-         */
-        export function render(renderer: THREE.WebGLRenderer, scene: THREE.Scene, camera: THREE.PerspectiveCamera): void {
-            (function frame () {
-                renderer.render(scene, camera)
-                requestAnimationFrame(frame)
-            })()
-        }
+    /**
+     * Let the browser download the land and flowers on screen as a .glb file, see exportGltf()
+     * @param {string} filename - name of the file
+     * @returns {Promise<void>} resolved once the download starts
+     * @impure
+     */
+    export async function downloadGltf(filename = 'garden.glb'): Promise<void> {
+        dom.download(new Blob([await exportGltf()], {type: 'model/gltf-binary'}), filename)
+    }
+
+    /**
+     * Render what the camera sees to a PNG picture
+     * @param {number} width - width of the picture in pixels, the one of the canvas by default
+     * @param {number} height - height of the picture in pixels, the one of the canvas by default
+     * @returns {Promise<Blob>} the picture in Promise
+     */
+    export function captureScreenshot(width?: number, height?: number): Promise<Blob> {
+        if (currentScene === null || currentView === null) throw new error.IllegalStateError('App is not initialized')
+        const renderer: THREE.WebGLRenderer = currentView.renderer
+        const size: {width: number, height: number} = renderer.getSize()
+        return capturing.picture(renderer, currentScene, currentView.camera,
+            width === undefined ? size.width * renderer.getPixelRatio() : width,
+            height === undefined ? size.height * renderer.getPixelRatio() : height)
+    }
+
+    /**
+     * Let the browser download what the camera sees as a PNG picture, see captureScreenshot()
+     * @param {number} width - width of the picture in pixels
+     * @param {number} height - height of the picture in pixels
+     * @param {string} filename - name of the file
+     * @returns {Promise<void>} resolved once the download starts
+     * @impure
+     */
+    export async function downloadScreenshot(width?: number, height?: number, filename = 'garden.png'): Promise<void> {
+        dom.download(await captureScreenshot(width, height), filename)
+    }
+
+    /**
+     * Capture PNG pictures while the camera turns around the garden
+     * @param {TurntableOptions} options - options
+     * @returns {Promise<Blob[]>} the pictures in Promise
+     * @impure
+     */
+    export function captureTurntable(options?: capturing.TurntableOptions): Promise<Blob[]> {
+        if (currentScene === null || currentView === null) throw new error.IllegalStateError('App is not initialized')
+        return capturing.turntablePictures(currentView.renderer, currentScene, currentView.camera,
+            currentView.orbitControls, options)
+    }
+
+    /**
+     * Record a WebM video while the camera turns around the garden
+     * @param {TurntableOptions} options - options
+     * @returns {Promise<Blob>} the video in Promise
+     * @impure
+     */
+    export function recordTurntable(options?: capturing.TurntableOptions): Promise<Blob> {
+        if (currentScene === null || currentView === null) throw new error.IllegalStateError('App is not initialized')
+        return capturing.turntableVideo(currentView.renderer, currentScene, currentView.camera,
+            currentView.orbitControls, options)
+    }
+
+    /**
+     * Let the browser download the pictures of a turn around the garden, named <prefix>_000.png and so on
+     * @param {TurntableOptions} options - options
+     * @param {string} prefix - beginning of the names of the files
+     * @returns {Promise<void>} resolved once every download has started, one after another
+     * @impure
+     */
+    export async function downloadTurntable(options?: capturing.TurntableOptions, prefix = 'turntable'): Promise<void> {
+        const pictures: Blob[] = await captureTurntable(options)
+        await dom.downloadAll(pictures.map((picture, index) => ({
+            blob: picture,
+            filename: prefix + '_' + ('00' + index).slice(-Math.max(3, String(index).length)) + '.png'
+        })))
+    }
+
+    /**
+     * Let the browser download the video of a turn around the garden, see recordTurntable()
+     * @param {TurntableOptions} options - options
+     * @param {string} filename - name of the file
+     * @returns {Promise<void>} resolved once the download starts
+     * @impure
+     */
+    export async function downloadTurntableVideo(options?: capturing.TurntableOptions,
+                                                 filename = 'turntable.webm'): Promise<void> {
+        dom.download(await recordTurntable(options), filename)
     }
 
     /**
      * Initialize everything in scene
+     * @param {boolean} debug - whether to show debugging helpers
+     * @param {number | string} seed - seed of the garden, or a random one if not given
+     * @param {GardenData} garden - garden to restore instead of growing a new one
+     * @param {boolean} preload - whether to load the assets of every species before anything is shown
      * @returns {Promise<void>} nothing
      * @impure
      */
-    export async function initialize(debug = false): Promise<void> {
+    export async function initialize(debug = false, seed?: number | string,
+                                     garden?: persistence.GardenData, preload = false): Promise<void> {
+        // random seed
+        console.log('seed: ' + prng.seed(seed))
+
         // renderer
         const renderer: THREE.WebGLRenderer = component.Renderer()
         dom.canvas().appendChild(renderer.domElement)
@@ -1210,12 +6363,15 @@ namespace control {
         const orbitControls: THREE.OrbitControls = component.OrbitControls(camera, renderer)
         orbitControls.update()
 
-        // light
-        scene.add(component.Light())
-
         // fog
         scene.fog = component.Fog()
 
+        // light and sky
+        const lights: lighting.Lights = lighting.Lights.of(scene)
+        lights.apply(lighting.get(lighting.defaultName), renderer, scene)
+        const dome: sky.Dome = sky.Dome.of(scene)
+        dome.apply(lighting.get(lighting.defaultName))
+
         if (debug) {
             // grid
             scene.add(component.GridHelper())
@@ -1228,28 +6384,88 @@ namespace control {
             camera.aspect = window.innerWidth / window.innerHeight
             camera.updateProjectionMatrix()
             renderer.setSize(window.innerWidth, window.innerHeight)
+            rendering.Scheduler.wake()
         })
         // dispatch resize event
         window.dispatchEvent(new Event('resize'))
 
+        // show the loading progress, out of every asset
+        objectLoading.expect(species.names())
+        loadingScreen.attach()
+        if (preload) await objectLoading.preload(species.names())
+
         // load land
         const land: THREE.Group = await objectLoading.loadLand()
         scene.add(land)
+        terrain.setGround(land)
+        lighting.castShadows([land])
+        lights.fit(land)
+        lights.apply(lighting.get(lighting.defaultName), renderer, scene)
+        currentLand = land
+        currentLights = lights
+        currentDome = dome
+        currentView = {renderer: renderer, camera: camera, orbitControls: orbitControls}
+
+        currentScene = scene
 
         // inject keyboard trigger to generate new flowers
-        document.onkeypress = async () => {
+        const grow = async (): Promise<void> => {
             // create a flower
-            const flower: model.Flower = await objectGenerating.FlowersGenerator.next()
-            // add to scene
-            threeEx.SceneHelper.of(scene).add(flower)
-            // update flower on screen
-            rendering.update(flower)
+            const flower: model.Flower | null = await objectGenerating.FlowersGenerator.next(currentSpecies)
+            if (flower === null) {
+                console.warn('The garden is full, remove some flowers to make room for new ones')
+                return
+            }
+            plant(scene, flower)
+        }
+        document.onkeypress = () => {
+            grow().catch(loadingScreen.report)
+        }
+        // click or tap on the land to plant a flower there, previewed by a ghost under the pointer
+        const ghost: THREE.Mesh = component.Ghost()
+        scene.add(ghost)
+        const preview = (clientX: number, clientY: number): THREE.Vector3 | null => {
+            const point: THREE.Vector3 | null = picking.pointOn(clientX, clientY, renderer.domElement, camera, land)
+            if (point === null) {
+                picking.hideGhost(ghost)
+            } else {
+                picking.showGhost(ghost, point, species.get(currentSpecies).footprint,
+                    objectGenerating.FlowersGenerator.isFree(point.x, point.z, currentSpecies))
+            }
+            rendering.Scheduler.wake()
+            return point
         }
-        // get the first flower
-        document.dispatchEvent(new Event('keypress'))
+        picking.onHover(renderer.domElement, preview, () => {
+            picking.hideGhost(ghost)
+            rendering.Scheduler.wake()
+        })
+        // edit the exclusion polygons in debug mode
+        const editor: editing.AreaEditor | null =
+            debug ? editing.AreaEditor.of(scene, renderer.domElement, camera, land, orbitControls) : null
+        const plantTapped = async (clientX: number, clientY: number, shiftKey: boolean): Promise<void> => {
+            // leave shift-clicks and clicks on vertices to the editor
+            if (editor !== null && (shiftKey || editor.handleAt(clientX, clientY) !== null)) return
+            const point: THREE.Vector3 | null = preview(clientX, clientY)
+            if (point !== null && await plantAt(point.x, point.z) !== null) {
+                // the ghost turns red, as the flower takes the place now
+                preview(clientX, clientY)
+            }
+        }
+        picking.onTap(renderer.domElement, (clientX: number, clientY: number, shiftKey: boolean) => {
+            plantTapped(clientX, clientY, shiftKey).catch(loadingScreen.report)
+        })
+
+        if (garden !== undefined) {
+            // restore the saved flowers
+            await importGarden(garden)
+        } else {
+            // get the first flower
+            await grow()
+        }
+        loadingScreen.finish()
 
         // render
-        rendering.render(renderer, scene, camera)
+        rendering.render(renderer, scene, camera, orbitControls)
     }
 }
 
@@ -1257,6 +6473,19 @@ namespace control {
  * Main entry point
  */
 (async () => {
+    // no page to draw in, e.g. when the script is loaded by the tests
+    if (document.getElementById('canvas-frame') === null) return
     polyfills.install()
-    await control.initialize()
+    const seed: string | null = dom.queryParameter('seed')
+    let garden: persistence.GardenData | null = null
+    if (dom.queryParameter('restore') !== null) {
+        try {
+            garden = persistence.loadFromStorage()
+        } catch (e) {
+            // grow a new garden rather than none
+            console.warn('Could not restore the saved garden, growing a new one: ' + (<Error>e).message)
+        }
+    }
+    await control.initialize(dom.queryParameter('debug') !== null, seed === null || seed === '' ? undefined : seed,
+        garden === null ? undefined : garden, dom.queryParameter('preload') !== null)
 })()
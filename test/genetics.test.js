@@ -0,0 +1,68 @@
+'use strict'
+
+const test = require('node:test')
+const assert = require('node:assert')
+const fs = require('fs')
+const path = require('path')
+const {loadFlowers, plain} = require('./helpers/flowers')
+
+const {prng, species, genetics, persistence} = loadFlowers()
+const garden = persistence.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'garden-v1.json'), 'utf8'))
+const [mother, father] = garden.flowers.map(flower => flower.traits)
+const definition = species.get(species.defaultName)
+
+/**
+ * Check whether a value is in a range
+ * @param {number} value - the value
+ * @param range - the range
+ * @returns {boolean} true if it is
+ */
+function within(value, range) {
+    return value >= range.min && value <= range.max
+}
+
+test('offspring are of the species of the mother, within its ranges', () => {
+    const random = prng.RandomGenerator.of(1)
+    for (let i = 0; i < 50; i++) {
+        const child = genetics.crossover(mother, father, random)
+        assert.strictEqual(child.species, mother.species)
+        assert.ok(within(child.petalCount, definition.petal.count))
+        assert.ok(within(child.petalWhorls, definition.petal.whorls))
+        assert.ok(within(child.stamenCount, definition.stamen.count))
+        assert.strictEqual(child.leafRotations.length, mother.leafRotations.length)
+        assert.ok(within(child.leavesLottery.filter(shown => shown).length, definition.leaf.count))
+        assert.ok([mother.petalModelUrl, father.petalModelUrl].indexOf(child.petalModelUrl) !== -1)
+    }
+})
+
+test('crossover only depends on the parents and the random generator', () => {
+    const first = genetics.crossover(mother, father, prng.RandomGenerator.of(99))
+    const second = genetics.crossover(mother, father, prng.RandomGenerator.of(99))
+    assert.deepStrictEqual(plain(first), plain(second))
+})
+
+test('the parents are left as they are', () => {
+    const before = plain([mother, father])
+    genetics.crossover(mother, father, prng.RandomGenerator.of(5))
+    genetics.mutate(mother, father, 0.5, prng.RandomGenerator.of(5))
+    assert.deepStrictEqual(plain([mother, father]), before)
+})
+
+test('genes mutate at the given rate', () => {
+    assert.deepStrictEqual(plain(genetics.mutate(mother, father, 0, prng.RandomGenerator.of(3))), plain(mother))
+    const mutated = plain(genetics.mutate(mother, father, 1, prng.RandomGenerator.of(3)))
+    assert.deepStrictEqual(mutated.stemShape, plain(father.stemShape))
+    assert.strictEqual(mutated.petalCount, father.petalCount)
+    assert.strictEqual(mutated.stamenCount, father.stamenCount)
+    assert.strictEqual(mutated.petalModelUrl, father.petalModelUrl)
+    assert.strictEqual(mutated.petalTextureUrl, father.petalTextureUrl)
+    assert.deepStrictEqual(mutated.leafRotations, plain(father.leafRotations))
+})
+
+test('invalid mutations are rejected', () => {
+    const random = prng.RandomGenerator.of(3)
+    assert.throws(() => genetics.mutate(mother, father, 1.5, random), /Invalid mutation rate/)
+    assert.throws(() => genetics.mutate(mother, father, -0.1, random), /Invalid mutation rate/)
+    const other = Object.assign({}, father, {species: 'wildflower'})
+    assert.throws(() => genetics.mutate(mother, other, 0.5, random), /another species/)
+})
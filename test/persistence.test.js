@@ -0,0 +1,70 @@
+'use strict'
+
+const test = require('node:test')
+const assert = require('node:assert')
+const fs = require('fs')
+const path = require('path')
+const {loadFlowers, plain} = require('./helpers/flowers')
+
+const {persistence, species} = loadFlowers()
+const v1 = fs.readFileSync(path.join(__dirname, 'fixtures', 'garden-v1.json'), 'utf8')
+
+test('a version 1 garden is migrated to the current version', () => {
+    const source = JSON.parse(v1)
+    const garden = plain(persistence.parse(v1))
+    assert.strictEqual(garden.version, persistence.version)
+    assert.deepStrictEqual(garden.random, source.random)
+    assert.strictEqual(garden.flowers.length, source.flowers.length)
+    garden.flowers.forEach((flower, i) => {
+        const old = source.flowers[i]
+        assert.deepStrictEqual(flower.random, old.random)
+        assert.deepStrictEqual(flower.position, old.stem.position)
+        assert.deepStrictEqual(flower.lineage, {id: i + 1, parents: [], generation: 0})
+        assert.deepStrictEqual(Object.keys(flower).sort(), ['lineage', 'position', 'progress', 'random', 'traits'])
+    })
+})
+
+test('the growth progress is estimated from the stem scale', () => {
+    const garden = persistence.parse(v1)
+    assert.ok(Math.abs(garden.flowers[0].progress - 0.5) < 1e-9)
+    assert.strictEqual(garden.flowers[1].progress, 1)
+})
+
+test('the traits of a version 1 flower are upgraded', () => {
+    const source = JSON.parse(v1)
+    const garden = plain(persistence.parse(v1))
+    const leaves = species.get(species.defaultName).leaf
+    const leafCount = species.leafNodesOf(leaves).length * species.leavesPerNode(leaves)
+    garden.flowers.forEach((flower, i) => {
+        const old = source.flowers[i].traits
+        const traits = flower.traits
+        assert.strictEqual(traits.species, species.defaultName)
+        assert.strictEqual(traits.petalCount, old.petalRotations.length)
+        assert.strictEqual(traits.petalWhorls, 1)
+        assert.strictEqual(traits.stamenCount, old.stamensLottery.filter(shown => shown).length)
+        assert.deepStrictEqual(traits.stemShape, {length: 41.4, lean: 0, direction: 0, curvature: 0})
+        assert.strictEqual(traits.petalRotations, undefined)
+        assert.strictEqual(traits.stamensLottery, undefined)
+        assert.strictEqual(traits.leafRotations.length, leafCount)
+        assert.strictEqual(traits.leavesLottery.length, leafCount)
+        const shown = traits.leavesLottery.filter(isShown => isShown).length
+        assert.ok(shown >= leaves.count.min && shown <= leaves.count.max)
+        assert.strictEqual(traits.torusTextureUrl, old.torusTextureUrl)
+        assert.strictEqual(traits.petalModelUrl, old.petalModelUrl)
+    })
+})
+
+test('a migrated garden is written and read back unchanged', () => {
+    const garden = persistence.parse(v1)
+    const json = persistence.stringify(garden)
+    assert.deepStrictEqual(plain(persistence.parse(json)), plain(garden))
+    assert.strictEqual(persistence.stringify(persistence.parse(json)), json)
+})
+
+test('invalid gardens are rejected', () => {
+    assert.throws(() => persistence.parse('{"version": 1'), /not valid JSON/)
+    assert.throws(() => persistence.parse('{"version": 6, "flowers": {}}'), /malformed/)
+    assert.throws(() => persistence.parse('null'), /malformed/)
+    const future = JSON.stringify({version: persistence.version + 1, random: {seed: 1, state: 1}, flowers: []})
+    assert.throws(() => persistence.parse(future), /Unsupported garden version/)
+})
@@ -0,0 +1,56 @@
+'use strict'
+
+const test = require('node:test')
+const assert = require('node:assert')
+const {loadFlowers} = require('./helpers/flowers')
+
+const {prng, util} = loadFlowers()
+
+/**
+ * Draw values from a generator
+ * @param generator - the generator
+ * @param {number} count - number of values
+ * @returns {number[]} the values
+ */
+function draw(generator, count) {
+    return Array.from({length: count}, () => generator.next())
+}
+
+test('generators of the same seed give the same sequence', () => {
+    const values = draw(prng.RandomGenerator.of(42), 100)
+    assert.deepStrictEqual(draw(prng.RandomGenerator.of(42), 100), values)
+    assert.ok(values.every(value => value >= 0 && value < 1))
+    assert.notDeepStrictEqual(draw(prng.RandomGenerator.of(43), 100), values)
+})
+
+test('a restored generator continues the sequence', () => {
+    const generator = prng.RandomGenerator.of(2018)
+    draw(generator, 10)
+    const restored = prng.RandomGenerator.restore(generator.seed, generator.getState())
+    assert.deepStrictEqual(draw(restored, 50), draw(generator, 50))
+})
+
+test('forked generators only depend on the state of their parent', () => {
+    const first = prng.RandomGenerator.of(7)
+    const second = prng.RandomGenerator.of(7)
+    assert.deepStrictEqual(draw(first.fork(), 20), draw(second.fork(), 20))
+    assert.deepStrictEqual(draw(first, 20), draw(second, 20))
+})
+
+test('seeds are normalized to unsigned 32-bit integers', () => {
+    assert.strictEqual(prng.normalizeSeed(12345), 12345)
+    assert.strictEqual(prng.normalizeSeed(' 12345 '), 12345)
+    assert.strictEqual(prng.normalizeSeed('spring garden'), prng.normalizeSeed('spring garden'))
+    assert.notStrictEqual(prng.normalizeSeed('spring garden'), prng.normalizeSeed('summer garden'))
+    const hashed = prng.normalizeSeed(4294967296)
+    assert.ok(Number.isInteger(hashed) && hashed >= 0 && hashed <= 4294967295)
+})
+
+test('seeding the garden generator reproduces the random choices', () => {
+    const pick = () => util.range(10).map(() => util.random(0, 100))
+    assert.strictEqual(prng.seed('meadow'), prng.normalizeSeed('meadow'))
+    const choices = pick()
+    prng.seed('meadow')
+    assert.deepStrictEqual(pick(), choices)
+    assert.strictEqual(prng.currentSeed(), prng.normalizeSeed('meadow'))
+})
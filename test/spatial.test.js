@@ -0,0 +1,44 @@
+'use strict'
+
+const test = require('node:test')
+const assert = require('node:assert')
+const {loadFlowers} = require('./helpers/flowers')
+
+const {spatial} = loadFlowers()
+
+test('items are found in the cells they cover', () => {
+    const grid = spatial.GridIndex.of(10, 100)
+    grid.insert('a', spatial.square(0, 0, 4))
+    grid.insert('b', spatial.square(65, 65, 4))
+    grid.insert('c', spatial.boundsOf([[-30, -30], [30, -25], [0, 30]]))
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(1, 1, 1))).sort(), ['a', 'c'])
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(66, 66, 1))), ['b'])
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(-60, 60, 1))), [])
+})
+
+test('items are found once even if they share many cells with the rectangle', () => {
+    const grid = spatial.GridIndex.of(10, 100)
+    grid.insert('wide', spatial.square(0, 0, 40))
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(0, 0, 40))), ['wide'])
+})
+
+test('items beyond the extent are kept in the border cells', () => {
+    const grid = spatial.GridIndex.of(10, 100)
+    grid.insert('far', spatial.square(5000, 0, 1))
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(105, 0, 1))), ['far'])
+})
+
+test('removed items are not found any more', () => {
+    const grid = spatial.GridIndex.of(10, 100)
+    grid.insert('a', spatial.square(0, 0, 4)).insert('b', spatial.square(2, 2, 4))
+    assert.strictEqual(grid.remove('a'), true)
+    assert.strictEqual(grid.remove('a'), false)
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(0, 0, 4))), ['b'])
+    grid.clear()
+    assert.deepStrictEqual(Array.from(grid.query(spatial.square(0, 0, 4))), [])
+})
+
+test('invalid grids are rejected', () => {
+    assert.throws(() => spatial.GridIndex.of(0, 100), /Invalid grid/)
+    assert.throws(() => spatial.GridIndex.of(20, 10), /Invalid grid/)
+})